@@ -0,0 +1,66 @@
+/**
+ * acl command - Explain access control decisions
+ */
+
+import type { Command } from "commander";
+import { ACL_PERMISSIONS } from "../../core/acl.ts";
+import { Registry } from "../../core/registry.ts";
+import type { AclPermission } from "../../core/types.ts";
+import { parsePackageId } from "../../core/types.ts";
+import logger from "../../utils/logger.ts";
+import { handleError, resolvePath } from "../utils.ts";
+
+interface AclCheckOptions {
+  dir?: string;
+  json?: boolean;
+}
+
+export function registerAclCommand(program: Command): void {
+  const acl = program.command("acl").description("Inspect access control rules");
+
+  acl
+    .command("check <token> <package> <action>")
+    .description("Explain whether a token (secret, name or id) may read, publish or yank a package")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--json", "Output the decision as JSON")
+    .action(async (token: string, pkg: string, action: string, options: AclCheckOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        if (!parsePackageId(pkg)) {
+          throw new Error(`Invalid package name: ${pkg} (expected user/pkg)`);
+        }
+        if (!ACL_PERMISSIONS.includes(action as AclPermission)) {
+          throw new Error(`Invalid action: ${action} (expected ${ACL_PERMISSIONS.join(", ")})`);
+        }
+
+        const identity =
+          (await registry.authenticate(token)) ?? (await registry.tokens.find(token));
+        if (!identity) {
+          throw new Error(`Token not found: ${token}`);
+        }
+        const decision = registry.checkAccess(identity, pkg, action as AclPermission);
+        process.exitCode = decision.allowed ? 0 : 1;
+
+        if (options.json) {
+          console.log(
+            JSON.stringify({ token: identity.name, package: pkg, action, ...decision }, null, 2),
+          );
+          return;
+        }
+
+        const verdict = `token '${identity.name}' ${decision.allowed ? "may" : "may not"} ${action} ${pkg}`;
+        if (decision.allowed) {
+          logger.success(`Allowed: ${verdict}`);
+        } else {
+          logger.error(`Denied: ${verdict}`);
+        }
+        console.log(`  Because ${decision.reason}`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerAclCommand;
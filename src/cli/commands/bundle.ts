@@ -0,0 +1,132 @@
+/**
+ * bundle command - Export and import offline bundles for air-gapped registries
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import type { MirrorPattern } from "../../core/types.ts";
+import fs from "../../utils/fs.ts";
+import logger from "../../utils/logger.ts";
+import { formatBytes, handleError, parseVersionFilter, resolvePath } from "../utils.ts";
+
+interface BundleExportOptions {
+  dir?: string;
+  full?: boolean;
+  strict?: boolean;
+  quiet?: boolean;
+  latest?: string;
+  publishedSince?: string;
+  skipPrerelease?: boolean;
+  fromProject?: string;
+  since?: string;
+  json?: boolean;
+}
+
+interface BundleImportOptions {
+  dir?: string;
+  json?: boolean;
+}
+
+export function registerBundleCommand(program: Command): void {
+  const bundle = program
+    .command("bundle")
+    .description("Export and import offline bundles for air-gapped registries");
+
+  bundle
+    .command("export <output> [patterns...]")
+    .description("Write served packages and their index entries to a bundle")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--full", "Bundle every served package")
+    .option("--strict", "Only bundle exact pattern matches (no dependency resolution)")
+    .option("-q, --quiet", "Suppress warnings about skipped dependencies")
+    .option("--latest <n>", "Only bundle the N newest versions of each matched package")
+    .option("--published-since <date>", "Only bundle versions published on or after a date")
+    .option("--skip-prerelease", "Skip prerelease versions")
+    .option("--from-project <dir>", "Bundle the exact versions a MoonBit project depends on")
+    .option(
+      "--since <rev|bundle>",
+      "Only bundle changes since an index revision or a previous bundle (delta bundle)",
+    )
+    .option("--json", "Output the bundle manifest as JSON")
+    .action(async (output: string, patterns: string[], options: BundleExportOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        if (options.fromProject && (patterns.length > 0 || options.full)) {
+          throw new Error("--from-project cannot be combined with patterns or --full");
+        }
+
+        const patternsToUse: MirrorPattern[] =
+          patterns.length > 0 ? patterns : registry.config.mirror.packages;
+        if (!options.full && !options.fromProject && patternsToUse.length === 0) {
+          throw new Error(
+            "No patterns specified and mirror.packages is empty (use --full to bundle everything)",
+          );
+        }
+
+        const report = await registry.exportBundle(
+          {
+            patterns: patternsToUse,
+            full: options.full ?? false,
+            strict: options.strict ?? false,
+            quiet: options.quiet ?? false,
+            filter: parseVersionFilter({ ...options, since: options.publishedSince }),
+            project: options.fromProject ? resolvePath(options.fromProject) : undefined,
+          },
+          resolvePath(output),
+          {
+            since:
+              options.since && fs.exists(options.since)
+                ? resolvePath(options.since)
+                : options.since,
+          },
+        );
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        if (report.missing.length > 0) {
+          logger.warn(`Left out ${report.missing.length} versions: ${report.missing.join(", ")}`);
+        }
+        const { manifest } = report;
+        const delta = manifest.base
+          ? ` and ${manifest.updates.length} updated index entries since ${manifest.base.slice(0, 12)}`
+          : "";
+        logger.success(
+          `Wrote ${manifest.packages.length} package versions${delta} to ${output} (${formatBytes(report.size)})`,
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  bundle
+    .command("import <file>")
+    .description("Verify a bundle and merge it into this registry")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--json", "Output the import report as JSON")
+    .action(async (file: string, options: BundleImportOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const report = await registry.importBundle(resolvePath(file));
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        logger.success(
+          `Imported ${report.imported} package versions from ${report.manifest.registry} (${report.skipped} already present, ${report.index_changed} index files updated)`,
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerBundleCommand;
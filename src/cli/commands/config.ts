@@ -29,6 +29,9 @@ export function registerConfigCommand(program: Command): void {
             printConfigSection("registry", config.registry);
             printConfigSection("upstream", config.upstream);
             printConfigSection("mirror", config.mirror);
+            if (config.cache) {
+              printConfigSection("cache", { ...config.cache });
+            }
             printConfigSection("server", config.server);
             printConfigSection("git", config.git);
             return;
@@ -72,6 +75,10 @@ function formatValue(value: unknown): string {
   if (Array.isArray(value)) {
     return `[${value.map((v) => formatValue(v)).join(", ")}]`;
   }
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value).map(([k, v]) => `${k} = ${formatValue(v)}`);
+    return `{ ${fields.join(", ")} }`;
+  }
   return String(value);
 }
 
@@ -0,0 +1,111 @@
+/**
+ * gc command - Remove cached packages according to retention policies
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import type { CachePolicy, GcReason } from "../../core/types.ts";
+import { parseDuration } from "../../utils/duration.ts";
+import logger from "../../utils/logger.ts";
+import { parseSize } from "../../utils/size.ts";
+import { formatBytes, handleError, resolvePath } from "../utils.ts";
+
+interface GcCommandOptions {
+  dir?: string;
+  dryRun?: boolean;
+  json?: boolean;
+  maxSize?: string;
+  keepVersions?: string;
+  maxAge?: string;
+  pruneUnmatched?: boolean;
+}
+
+const REASON_LABELS: Record<GcReason, string> = {
+  unmatched: "no longer matches mirror.packages",
+  old_version: "older than the newest versions kept",
+  expired: "not downloaded within max_age",
+  max_size: "evicted to fit max_size",
+};
+
+/** Build policy overrides from command options */
+function parsePolicyOverrides(options: GcCommandOptions): CachePolicy {
+  const policy: CachePolicy = {};
+
+  if (options.maxSize !== undefined) {
+    parseSize(options.maxSize);
+    policy.max_size = options.maxSize;
+  }
+  if (options.keepVersions !== undefined) {
+    const keep = Number(options.keepVersions);
+    if (!Number.isInteger(keep) || keep < 1) {
+      throw new Error(`Invalid --keep-versions value: ${options.keepVersions}`);
+    }
+    policy.keep_versions = keep;
+  }
+  if (options.maxAge !== undefined) {
+    parseDuration(options.maxAge);
+    policy.max_age = options.maxAge;
+  }
+  if (options.pruneUnmatched) {
+    policy.prune_unmatched = true;
+  }
+
+  return policy;
+}
+
+export function registerGcCommand(program: Command): void {
+  program
+    .command("gc")
+    .description("Remove cached packages according to the [cache] retention policies")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-n, --dry-run", "Show what would be removed without deleting anything")
+    .option("--json", "Output the report as JSON")
+    .option("--max-size <size>", "Maximum total cache size (e.g. 10GB)")
+    .option("--keep-versions <n>", "Keep only the N newest versions of each package")
+    .option("--max-age <duration>", "Remove versions not downloaded for this long (e.g. 90d)")
+    .option("--prune-unmatched", "Remove packages that no longer match mirror.packages")
+    .action(async (options: GcCommandOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const policy = parsePolicyOverrides(options);
+        if (Object.keys({ ...registry.config.cache, ...policy }).length === 0) {
+          console.error("Error: No retention policy configured.");
+          console.error("Add a [cache] section to registry.toml or pass a policy option, e.g.:");
+          console.error("  moonbit-registry gc --keep-versions 3 --dry-run");
+          process.exit(1);
+        }
+
+        const report = await registry.gc({ dryRun: options.dryRun, policy });
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        for (const removal of report.removed) {
+          console.log(
+            `  ${removal.name}@${removal.version} (${formatBytes(removal.size)}) - ${REASON_LABELS[removal.reason]}`,
+          );
+        }
+        if (report.protected > 0) {
+          logger.info(`Kept ${report.protected} versions that no enabled source can provide`);
+        }
+
+        const summary = `${report.removed.length} versions, ${formatBytes(report.freed)}`;
+        if (report.dry_run) {
+          logger.info(`Dry run: would remove ${summary}`);
+        } else {
+          logger.success(`Removed ${summary}`);
+        }
+        console.log(
+          `  Cache size: ${formatBytes(report.size_before)} -> ${formatBytes(report.size_after)}`,
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerGcCommand;
@@ -0,0 +1,79 @@
+/**
+ * graph command - Export the resolved dependency graph for mirror patterns
+ */
+
+import type { Command } from "commander";
+import { GRAPH_FORMATS, type GraphFormat, formatGraph } from "../../core/dependency-graph.ts";
+import { Registry } from "../../core/registry.ts";
+import type { MirrorPattern } from "../../core/types.ts";
+import fs from "../../utils/fs.ts";
+import logger from "../../utils/logger.ts";
+import { handleError, parseVersionFilter, resolvePath } from "../utils.ts";
+
+interface GraphCommandOptions {
+  dir?: string;
+  source?: string;
+  format?: string;
+  output?: string;
+  latest?: string;
+  since?: string;
+  skipPrerelease?: boolean;
+}
+
+export function registerGraphCommand(program: Command): void {
+  program
+    .command("graph [patterns...]")
+    .description("Export the dependency graph of mirror patterns (DOT, JSON or Mermaid)")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option(
+      "-s, --source <name>",
+      "Source index to resolve against (uses default if not specified)",
+    )
+    .option("-f, --format <format>", `Output format (${GRAPH_FORMATS.join(", ")})`, "dot")
+    .option("-o, --output <file>", "Write the graph to a file instead of stdout")
+    .option("--latest <n>", "Only include the N newest versions of each matched package")
+    .option("--since <date>", "Only include versions published on or after a date")
+    .option("--skip-prerelease", "Skip prerelease versions")
+    .action(async (patterns: string[], options: GraphCommandOptions) => {
+      try {
+        const format = (options.format ?? "dot") as GraphFormat;
+        if (!GRAPH_FORMATS.includes(format)) {
+          throw new Error(
+            `Invalid --format value: ${options.format} (expected ${GRAPH_FORMATS.join(", ")})`,
+          );
+        }
+
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const patternsToUse: MirrorPattern[] =
+          patterns.length > 0 ? patterns : registry.config.mirror.packages;
+        if (patternsToUse.length === 0) {
+          throw new Error("No patterns specified and mirror.packages is empty");
+        }
+
+        const graph = await registry.resolveGraph({
+          patterns: patternsToUse,
+          full: false,
+          strict: false,
+          quiet: true,
+          source: options.source,
+          filter: parseVersionFilter(options),
+        });
+        const output = formatGraph(graph, format);
+
+        if (options.output) {
+          await fs.writeText(resolvePath(options.output), output);
+          logger.success(
+            `Wrote ${graph.nodes.length} packages and ${graph.edges.length} dependencies to ${options.output}`,
+          );
+        } else {
+          process.stdout.write(output.endsWith("\n") ? output : `${output}\n`);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerGraphCommand;
@@ -0,0 +1,66 @@
+/**
+ * info command - Show a package's versions and cache state
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { parsePackageId } from "../../core/types.ts";
+import { formatBytes, handleError, printColumns, printTable, resolvePath } from "../utils.ts";
+
+interface InfoCommandOptions {
+  dir?: string;
+  json?: boolean;
+}
+
+export function registerInfoCommand(program: Command): void {
+  program
+    .command("info <package>")
+    .description("Show versions and cache state of a package (username/name)")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--json", "Output package details as JSON")
+    .action(async (packageName: string, options: InfoCommandOptions) => {
+      try {
+        const pkgId = parsePackageId(packageName);
+        if (!pkgId) {
+          throw new Error(`Invalid package name: ${packageName} (expected username/name)`);
+        }
+
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+        const info = await registry.getPackageInfo(pkgId.username, pkgId.name);
+        if (!info) {
+          throw new Error(`Package not found: ${packageName}`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(info, null, 2));
+          return;
+        }
+
+        console.log(`${info.name}:`);
+        printTable({
+          Latest: info.latest ?? "none",
+          Versions: info.versions,
+          "Cached versions": info.cachedVersions,
+          "Cache size": formatBytes(info.cacheSize),
+          Origin: info.origin === "index" ? "served index" : `source '${info.origin}'`,
+        });
+
+        console.log("");
+        printColumns(
+          ["VERSION", "CACHED", "SIZE", "PUBLISHED", "DEPS"],
+          info.details.map((v) => [
+            v.yanked ? `${v.version} (yanked)` : v.version,
+            v.cached ? "yes" : "no",
+            v.cached ? formatBytes(v.size) : "-",
+            v.created_at ?? "-",
+            Object.keys(v.deps ?? {}).length,
+          ]),
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerInfoCommand;
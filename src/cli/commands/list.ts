@@ -0,0 +1,60 @@
+/**
+ * list command - List packages with their index and cache state
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { formatBytes, handleError, printColumns, resolvePath } from "../utils.ts";
+
+interface ListCommandOptions {
+  dir?: string;
+  cached?: boolean;
+  json?: boolean;
+}
+
+export function registerListCommand(program: Command): void {
+  program
+    .command("list [pattern]")
+    .description("List packages in the index and cache (e.g., 'moonbitlang/*')")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--cached", "Only list packages with cached versions")
+    .option("--json", "Output the list as JSON")
+    .action(async (pattern: string | undefined, options: ListCommandOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        let packages = await registry.listPackageStats(pattern);
+        if (options.cached) {
+          packages = packages.filter((p) => p.cachedVersions > 0);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(packages, null, 2));
+          return;
+        }
+
+        if (packages.length === 0) {
+          console.log("No packages found.");
+          return;
+        }
+
+        printColumns(
+          ["PACKAGE", "LATEST", "VERSIONS", "CACHED", "SIZE"],
+          packages.map((p) => [
+            p.name,
+            p.latest ?? "-",
+            p.versions,
+            p.cachedVersions,
+            formatBytes(p.cacheSize),
+          ]),
+        );
+        console.log("");
+        console.log(`${packages.length} packages`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerListCommand;
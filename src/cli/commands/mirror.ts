@@ -3,10 +3,18 @@
  */
 
 import type { Command } from "commander";
+import { readMirrorPlan, writeMirrorPlan } from "../../core/mirror-plan.ts";
 import { Registry } from "../../core/registry.ts";
-import type { MirrorOptions } from "../../core/types.ts";
+import type { MirrorOptions, MirrorPattern, MirrorPlan } from "../../core/types.ts";
+import { formatMirrorPattern } from "../../core/types.ts";
 import logger, { setQuiet } from "../../utils/logger.ts";
-import { handleError, resolvePath } from "../utils.ts";
+import {
+  formatBytes,
+  handleError,
+  parseVersionFilter,
+  printColumns,
+  resolvePath,
+} from "../utils.ts";
 
 interface MirrorCommandOptions {
   full?: boolean;
@@ -14,6 +22,78 @@ interface MirrorCommandOptions {
   quiet?: boolean;
   dir?: string;
   source?: string;
+  latest?: string;
+  since?: string;
+  skipPrerelease?: boolean;
+  concurrency?: string;
+  dryRun?: boolean;
+  planOut?: string;
+  fromPlan?: string;
+  fromProject?: string;
+}
+
+/** Print a mirror plan for review */
+function printPlan(plan: MirrorPlan): void {
+  const sizes = plan.download.filter((item) => item.size !== null);
+  const estimate =
+    plan.total_bytes === null
+      ? ""
+      : `, ${formatBytes(plan.total_bytes)}${sizes.length < plan.download.length ? "+" : ""}`;
+
+  console.log(`Mirror plan for source '${plan.source}':`);
+  console.log("");
+  console.log(`To download: ${plan.download.length} versions${estimate}`);
+  if (plan.download.length > 0) {
+    printColumns(
+      ["PACKAGE", "VERSION", "SIZE", "SOURCE"],
+      plan.download.map((item) => [
+        item.name,
+        item.version,
+        item.size === null ? "?" : formatBytes(item.size),
+        item.source,
+      ]),
+    );
+  }
+
+  if (plan.cached.length > 0) {
+    console.log("");
+    console.log(`Already cached: ${plan.cached.length} versions`);
+    for (const item of plan.cached) {
+      console.log(`  ${item.name}@${item.version}`);
+    }
+  }
+
+  if (plan.skipped.length > 0) {
+    console.log("");
+    console.log(`Skipped dependencies: ${plan.skipped.length}`);
+    for (const dep of plan.skipped) {
+      const cached = dep.cached ? " [cached]" : "";
+      console.log(`  ${dep.name}${cached} (required by ${dep.required_by.join(", ")})`);
+    }
+  }
+
+  if (plan.missing.length > 0) {
+    console.log("");
+    console.log(`Missing from the source index: ${plan.missing.join(", ")}`);
+  }
+
+  if (plan.total_bytes !== null) {
+    const unknown = plan.download.length - sizes.length;
+    console.log("");
+    console.log(
+      `Estimated download size: ${formatBytes(plan.total_bytes)}${unknown > 0 ? ` (${unknown} sizes unknown)` : ""}`,
+    );
+  }
+}
+
+/** Parse the --concurrency option */
+function parseConcurrency(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency value: ${value} (expected a positive integer)`);
+  }
+  return concurrency;
 }
 
 export function registerMirrorCommand(program: Command): void {
@@ -25,6 +105,14 @@ export function registerMirrorCommand(program: Command): void {
     .option("-q, --quiet", "Suppress warnings about skipped dependencies")
     .option("-d, --dir <path>", "Registry directory (default: current directory)")
     .option("-s, --source <name>", "Source to mirror from (uses default if not specified)")
+    .option("--latest <n>", "Only mirror the N newest versions of each matched package")
+    .option("--since <date>", "Only mirror versions published on or after a date")
+    .option("--skip-prerelease", "Skip prerelease versions")
+    .option("-j, --concurrency <n>", "Maximum parallel downloads (default: mirror.concurrency)")
+    .option("-n, --dry-run", "Print the mirror plan without downloading anything")
+    .option("--plan-out <file>", "Write the mirror plan to a JSON file without downloading")
+    .option("--from-plan <file>", "Apply a plan written by --plan-out")
+    .option("--from-project <dir>", "Mirror the exact versions a MoonBit project depends on")
     .action(async (patterns: string[], options: MirrorCommandOptions) => {
       try {
         if (options.quiet) {
@@ -34,17 +122,40 @@ export function registerMirrorCommand(program: Command): void {
         const registryPath = resolvePath(options.dir ?? ".");
         const registry = await Registry.load(registryPath);
 
-        let patternsToUse = patterns;
-        if (!options.full && patterns.length === 0) {
+        if (options.fromPlan) {
+          if (patterns.length > 0 || options.full || options.dryRun || options.planOut) {
+            throw new Error(
+              "--from-plan cannot be combined with patterns, --full or planning options",
+            );
+          }
+          const plan = await readMirrorPlan(resolvePath(options.fromPlan));
+          logger.info(
+            `Applying plan from ${options.fromPlan} (${plan.download.length} versions from '${plan.source}', created ${plan.created_at})`,
+          );
+          await registry.applyMirrorPlan(plan, {
+            concurrency: parseConcurrency(options.concurrency),
+          });
+          return;
+        }
+
+        if (options.fromProject && (patterns.length > 0 || options.full)) {
+          throw new Error("--from-project cannot be combined with patterns or --full");
+        }
+
+        let patternsToUse: MirrorPattern[] = patterns;
+        if (!options.full && !options.fromProject && patterns.length === 0) {
           // Check if config has default patterns
           if (registry.config.mirror.packages.length > 0) {
             patternsToUse = registry.config.mirror.packages;
-            logger.info(`Using patterns from config: ${patternsToUse.join(", ")}`);
+            logger.info(
+              `Using patterns from config: ${patternsToUse.map(formatMirrorPattern).join(", ")}`,
+            );
           } else {
             console.error("Error: No patterns specified. Use --full to mirror all packages.");
             console.error("Examples:");
             console.error("  moonbit-registry mirror 'moonbitlang/*'");
             console.error("  moonbit-registry mirror 'company/pkg-*' 'moonbitlang/core'");
+            console.error("  moonbit-registry mirror --latest 3 'moonbitlang/core@^0.4'");
             console.error("  moonbit-registry mirror --full");
             process.exit(1);
           }
@@ -56,18 +167,36 @@ export function registerMirrorCommand(program: Command): void {
           strict: options.strict ?? false,
           quiet: options.quiet ?? false,
           source: options.source,
+          filter: parseVersionFilter(options),
+          concurrency: parseConcurrency(options.concurrency),
+          project: options.fromProject ? resolvePath(options.fromProject) : undefined,
         };
 
         const sourceName =
           options.source ?? registry.sourceManager.getDefaultSourceName() ?? "default";
         logger.info(`Mirroring packages from '${sourceName}'${options.full ? " (full)" : ""}`);
-        if (!options.full) {
-          logger.info(`Patterns: ${patternsToUse.join(", ")}`);
+        if (options.fromProject) {
+          logger.info(`Project: ${mirrorOptions.project}`);
+        } else if (!options.full) {
+          logger.info(`Patterns: ${patternsToUse.map(formatMirrorPattern).join(", ")}`);
         }
         if (options.strict) {
           logger.info("Strict mode: dependencies will not be automatically included");
         }
 
+        if (options.dryRun || options.planOut) {
+          const plan = await registry.planMirror({ ...mirrorOptions, estimateSizes: true });
+          if (options.planOut) {
+            await writeMirrorPlan(resolvePath(options.planOut), plan);
+            logger.success(`Wrote mirror plan to ${options.planOut}`);
+          }
+          if (options.dryRun || !options.quiet) {
+            console.log("");
+            printPlan(plan);
+          }
+          return;
+        }
+
         await registry.mirror(mirrorOptions);
       } catch (error) {
         handleError(error);
@@ -0,0 +1,59 @@
+/**
+ * publish command - Publish a package archive to a registry
+ */
+
+import { existsSync } from "node:fs";
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import type { PackageEntry } from "../../core/types.ts";
+import logger from "../../utils/logger.ts";
+import { TOKEN_ENV_VAR, callRegistryApi, handleError, resolvePath } from "../utils.ts";
+
+interface PublishCommandOptions {
+  dir?: string;
+  registry?: string;
+  token?: string;
+}
+
+export function registerPublishCommand(program: Command): void {
+  program
+    .command("publish <zip>")
+    .description("Publish a package archive to the registry")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-r, --registry <url>", "Publish to a running registry server instead")
+    .option("-t, --token <token>", "Publish token (default: $MOONBIT_REGISTRY_TOKEN)")
+    .action(async (zipPath: string, options: PublishCommandOptions) => {
+      try {
+        const archivePath = resolvePath(zipPath);
+        if (!existsSync(archivePath)) {
+          console.error(`Error: File not found: ${archivePath}`);
+          process.exit(1);
+        }
+
+        const data = new Uint8Array(await Bun.file(archivePath).arrayBuffer());
+
+        let entry: PackageEntry;
+        if (options.registry) {
+          const token = options.token ?? process.env[TOKEN_ENV_VAR];
+          logger.info(`Publishing ${zipPath} to ${options.registry}`);
+          entry = await callRegistryApi<PackageEntry>(options.registry, "/api/publish", {
+            method: "POST",
+            body: data,
+            contentType: "application/zip",
+            token,
+          });
+          logger.success(`Published ${entry.name}@${entry.version}`);
+        } else {
+          const registryPath = resolvePath(options.dir ?? ".");
+          const registry = await Registry.load(registryPath);
+          entry = await registry.publish(data);
+        }
+
+        console.log(`  Checksum: ${entry.checksum}`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerPublishCommand;
@@ -0,0 +1,72 @@
+/**
+ * rdeps command - Show the packages that depend on a package
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { parsePackageId } from "../../core/types.ts";
+import { handleError, printColumns, resolvePath } from "../utils.ts";
+
+interface RdepsCommandOptions {
+  dir?: string;
+  transitive?: boolean;
+  at?: string;
+  json?: boolean;
+}
+
+export function registerRdepsCommand(program: Command): void {
+  program
+    .command("rdeps <package>")
+    .description("Show packages that depend on a package (username/name)")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-t, --transitive", "Include indirect dependents")
+    // `--version` is taken by the program itself
+    .option("--at <version>", "Only direct dependents whose requirement matches this version")
+    .option("--json", "Output dependents as JSON")
+    .action(async (packageName: string, options: RdepsCommandOptions) => {
+      try {
+        const pkgId = parsePackageId(packageName);
+        if (!pkgId) {
+          throw new Error(`Invalid package name: ${packageName} (expected username/name)`);
+        }
+
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+        const dependents = await registry.findDependents(pkgId.username, pkgId.name, {
+          transitive: options.transitive,
+          version: options.at,
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(dependents, null, 2));
+          return;
+        }
+
+        const target = options.at ? `${packageName}@${options.at}` : packageName;
+        if (dependents.length === 0) {
+          console.log(`No packages depend on ${target}.`);
+          return;
+        }
+
+        const packages = new Set(dependents.map((d) => d.name));
+        console.log(
+          `${packages.size} packages (${dependents.length} versions) depend on ${target}:`,
+        );
+        console.log("");
+        printColumns(
+          options.transitive
+            ? ["PACKAGE", "VERSION", "REQUIRES", "DEPTH", "VIA", "SOURCE"]
+            : ["PACKAGE", "VERSION", "REQUIRES", "SOURCE"],
+          dependents.map((d) =>
+            options.transitive
+              ? [d.name, d.version, d.requirement, d.depth, d.via ?? "-", d.source]
+              : [d.name, d.version, d.requirement, d.source],
+          ),
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerRdepsCommand;
@@ -0,0 +1,69 @@
+/**
+ * search command - Find packages by keyword
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import logger from "../../utils/logger.ts";
+import { handleError, resolvePath } from "../utils.ts";
+
+interface SearchCommandOptions {
+  dir?: string;
+  limit?: string;
+  rebuild?: boolean;
+  json?: boolean;
+}
+
+export function registerSearchCommand(program: Command): void {
+  program
+    .command("search <query...>")
+    .description("Search packages by name, username, description and keywords")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-n, --limit <n>", "Maximum number of results", "20")
+    .option("--rebuild", "Refresh the search index before searching")
+    .option("--json", "Output results as JSON")
+    .action(async (terms: string[], options: SearchCommandOptions) => {
+      try {
+        const limit = Number(options.limit ?? "20");
+        if (!Number.isInteger(limit) || limit <= 0) {
+          throw new Error(`Invalid --limit value: ${options.limit}`);
+        }
+
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        if (options.rebuild) {
+          const updated = await registry.searchIndex.refresh();
+          logger.info(`Re-indexed ${updated} packages`);
+        }
+
+        const query = terms.join(" ");
+        const results = await registry.search(query, { limit });
+
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+          return;
+        }
+
+        if (results.length === 0) {
+          console.log(`No packages match '${query}'.`);
+          return;
+        }
+
+        for (const result of results) {
+          const version = result.version ? `@${result.version}` : "";
+          console.log(`${result.name}${version}`);
+          if (result.description) {
+            console.log(`  ${result.description}`);
+          }
+          if (result.keywords.length > 0) {
+            console.log(`  Keywords: ${result.keywords.join(", ")}`);
+          }
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerSearchCommand;
@@ -3,10 +3,11 @@
  */
 
 import type { Command } from "commander";
+import { AutoSync } from "../../core/auto-sync.ts";
 import { Registry } from "../../core/registry.ts";
 import createServer from "../../server/index.ts";
 import logger from "../../utils/logger.ts";
-import { handleError, resolvePath } from "../utils.ts";
+import { handleError, parseDuration, resolvePath } from "../utils.ts";
 
 interface ServeCommandOptions {
   port?: string;
@@ -26,25 +27,31 @@ export function registerServeCommand(program: Command): void {
         const registryPath = resolvePath(options.dir ?? ".");
         const registry = await Registry.load(registryPath);
 
+        // Background sync of source indexes and mirror patterns
+        const autoSync = registry.config.mirror.auto_sync
+          ? new AutoSync(registry, parseDuration(registry.config.mirror.sync_interval))
+          : undefined;
+
         const serverOptions = {
           port: options.port ? Number.parseInt(options.port, 10) : undefined,
           host: options.host,
+          autoSync,
         };
 
         const server = createServer(registry, serverOptions);
 
         // Handle shutdown
-        process.on("SIGINT", () => {
+        const shutdown = async () => {
           logger.info("Shutting down server...");
+          autoSync?.stop();
+          await registry.packageStore.access.flush();
           process.exit(0);
-        });
-
-        process.on("SIGTERM", () => {
-          logger.info("Shutting down server...");
-          process.exit(0);
-        });
+        };
+        process.on("SIGINT", shutdown);
+        process.on("SIGTERM", shutdown);
 
         server.start();
+        autoSync?.start();
 
         // Keep process running
         logger.info("Press Ctrl+C to stop the server");
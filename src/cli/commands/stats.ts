@@ -0,0 +1,81 @@
+/**
+ * stats command - Show index, source and cache statistics
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { formatBytes, handleError, printColumns, printTable, resolvePath } from "../utils.ts";
+
+interface StatsCommandOptions {
+  dir?: string;
+  top?: string;
+  json?: boolean;
+}
+
+export function registerStatsCommand(program: Command): void {
+  program
+    .command("stats")
+    .description("Show registry statistics")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--top <n>", "Number of largest packages to show", "10")
+    .option("--json", "Output statistics as JSON")
+    .action(async (options: StatsCommandOptions) => {
+      try {
+        const top = Number(options.top ?? "10");
+        if (!Number.isInteger(top) || top < 0) {
+          throw new Error(`Invalid --top value: ${options.top}`);
+        }
+
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+        const stats = await registry.getStats({ top });
+
+        if (options.json) {
+          console.log(JSON.stringify(stats, null, 2));
+          return;
+        }
+
+        console.log("Registry:");
+        printTable({
+          Packages: stats.packages,
+          "Cached versions": stats.cachedVersions,
+          "Cache size": formatBytes(stats.cacheSize),
+          "Index commit": stats.index.commit?.slice(0, 12) ?? "none",
+          "Last commit": stats.index.committedAt ?? "never",
+          "Last sync": stats.index.lastSync ?? "never",
+        });
+
+        if (stats.sources.length > 0) {
+          console.log("");
+          console.log("Sources:");
+          printColumns(
+            ["NAME", "STATUS", "PACKAGES", "LAST SYNC"],
+            stats.sources.map((s) => [
+              s.name,
+              s.enabled ? "enabled" : "disabled",
+              s.packages,
+              s.lastSync ?? "never",
+            ]),
+          );
+        }
+
+        if (stats.largest.length > 0) {
+          console.log("");
+          console.log("Largest packages:");
+          printColumns(
+            ["PACKAGE", "VERSIONS", "CACHED", "SIZE"],
+            stats.largest.map((p) => [
+              p.name,
+              p.versions,
+              p.cachedVersions,
+              formatBytes(p.cacheSize),
+            ]),
+          );
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerStatsCommand;
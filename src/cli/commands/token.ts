@@ -0,0 +1,127 @@
+/**
+ * token command - Manage API tokens for the HTTP server
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { TOKEN_SCOPES, parseScopes } from "../../core/token-store.ts";
+import logger from "../../utils/logger.ts";
+import { handleError, parseDuration, printColumns, resolvePath } from "../utils.ts";
+
+interface TokenCreateOptions {
+  dir?: string;
+  scope: string;
+  expires?: string;
+  group?: string;
+  json?: boolean;
+}
+
+interface TokenCommandOptions {
+  dir?: string;
+  json?: boolean;
+}
+
+export function registerTokenCommand(program: Command): void {
+  const token = program.command("token").description("Manage API tokens");
+
+  token
+    .command("create <name>")
+    .description("Create a token (the secret is only shown once)")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option(
+      "-s, --scope <scopes>",
+      `Comma-separated scopes (${TOKEN_SCOPES.join(", ")})`,
+      "read-index,download",
+    )
+    .option("--expires <duration>", "Expire the token after a duration (e.g. 30d)")
+    .option("-g, --group <groups>", "Comma-separated groups for [[acl]] rules")
+    .option("--json", "Output the token and its record as JSON")
+    .action(async (name: string, options: TokenCreateOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const scopes = parseScopes(options.scope);
+        const expiresAt = options.expires
+          ? new Date(Date.now() + parseDuration(options.expires))
+          : undefined;
+        const groups = options.group
+          ?.split(",")
+          .map((g) => g.trim())
+          .filter(Boolean);
+        const { token: secret, record } = await registry.tokens.create(name, scopes, {
+          expiresAt,
+          groups,
+        });
+
+        if (options.json) {
+          const { hash: _hash, ...info } = record;
+          console.log(JSON.stringify({ token: secret, ...info }, null, 2));
+          return;
+        }
+
+        logger.success(`Created token '${record.name}' (${record.id})`);
+        console.log("");
+        console.log(`  ${secret}`);
+        console.log("");
+        console.log("Store it now: it cannot be shown again.");
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  token
+    .command("list")
+    .description("List tokens")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--json", "Output as JSON")
+    .action(async (options: TokenCommandOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+        const tokens = (await registry.tokens.list()).map(({ hash: _hash, ...info }) => info);
+
+        if (options.json) {
+          console.log(JSON.stringify(tokens, null, 2));
+          return;
+        }
+
+        if (tokens.length === 0) {
+          console.log("No tokens.");
+          return;
+        }
+
+        printColumns(
+          ["ID", "NAME", "SCOPES", "GROUPS", "CREATED", "EXPIRES"],
+          tokens.map((t) => [
+            t.id,
+            t.name,
+            t.scopes.join(","),
+            t.groups?.join(",") ?? "-",
+            t.created_at,
+            t.expires_at ?? "never",
+          ]),
+        );
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  token
+    .command("revoke <token>")
+    .description("Revoke a token by id or name")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .action(async (idOrName: string, options: TokenCommandOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const record = await registry.tokens.revoke(idOrName);
+        logger.success(`Revoked token '${record.name}' (${record.id})`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerTokenCommand;
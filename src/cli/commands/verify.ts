@@ -0,0 +1,84 @@
+/**
+ * verify command - Audit the package cache against the index checksums
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import type { VerifyIssue } from "../../core/types.ts";
+import logger from "../../utils/logger.ts";
+import { handleError, resolvePath } from "../utils.ts";
+
+interface VerifyCommandOptions {
+  dir?: string;
+  repair?: boolean;
+  json?: boolean;
+}
+
+const ISSUE_LABELS: Record<VerifyIssue["kind"], string> = {
+  mismatch: "Checksum mismatches",
+  orphan: "Orphaned archives (no index entry)",
+  missing: "Missing archives (served or local-only versions without a cached file)",
+};
+
+/** Format the repair outcome of an issue */
+function repairStatus(issue: VerifyIssue): string {
+  if (issue.repaired === undefined) return "";
+  return issue.repaired ? " [repaired]" : ` [repair failed: ${issue.error}]`;
+}
+
+export function registerVerifyCommand(program: Command): void {
+  program
+    .command("verify")
+    .description("Verify cached packages against the index checksums")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("--repair", "Re-download mismatched and missing archives")
+    .option("--json", "Output the report as JSON")
+    .action(async (options: VerifyCommandOptions) => {
+      try {
+        const registryPath = resolvePath(options.dir ?? ".");
+        const registry = await Registry.load(registryPath);
+
+        const report = await registry.verify({ repair: options.repair });
+        // Corrupt archives fail the run unless they were repaired
+        const failed = report.issues.some((i) => i.kind === "mismatch" && !i.repaired);
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          console.log(`Checked ${report.checked} cached archives (${report.ok} OK)`);
+
+          for (const kind of ["mismatch", "orphan", "missing"] as const) {
+            const issues = report.issues.filter((i) => i.kind === kind);
+            if (issues.length === 0) continue;
+
+            console.log("");
+            console.log(`${ISSUE_LABELS[kind]}: ${issues.length}`);
+            for (const issue of issues) {
+              console.log(`  ${issue.name}@${issue.version}${repairStatus(issue)}`);
+              if (kind === "mismatch") {
+                console.log(`    expected ${issue.expected}`);
+                console.log(`    actual   ${issue.actual}`);
+              }
+            }
+          }
+
+          console.log("");
+          if (failed) {
+            logger.error("Cache verification failed");
+          } else if (report.issues.length > 0) {
+            logger.warn(`Cache verification passed with ${report.issues.length} warnings`);
+          } else {
+            logger.success("Cache verification passed");
+          }
+        }
+
+        if (failed) {
+          process.exit(1);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerVerifyCommand;
@@ -0,0 +1,81 @@
+/**
+ * yank/unyank commands - Mark package versions as yanked in the index
+ */
+
+import type { Command } from "commander";
+import { Registry } from "../../core/registry.ts";
+import { parsePackageVersionId } from "../../core/types.ts";
+import logger from "../../utils/logger.ts";
+import { TOKEN_ENV_VAR, callRegistryApi, handleError, resolvePath } from "../utils.ts";
+
+interface YankCommandOptions {
+  dir?: string;
+  registry?: string;
+  token?: string;
+}
+
+/** Run a yank or unyank against a local registry or a running server */
+async function runYank(spec: string, yanked: boolean, options: YankCommandOptions): Promise<void> {
+  const id = parsePackageVersionId(spec);
+  if (!id) {
+    console.error(`Error: Invalid package version '${spec}'. Expected user/pkg@version`);
+    process.exit(1);
+  }
+
+  const action = yanked ? "yank" : "unyank";
+
+  if (options.registry) {
+    const token = options.token ?? process.env[TOKEN_ENV_VAR];
+    const result = await callRegistryApi<{ changed: boolean }>(
+      options.registry,
+      `/api/packages/${id.username}/${id.name}/${id.version}/${action}`,
+      { method: "POST", token },
+    );
+    if (result.changed) {
+      logger.success(`${yanked ? "Yanked" : "Unyanked"} ${spec}`);
+    } else {
+      logger.info(`${spec} is already ${yanked ? "yanked" : "not yanked"}`);
+    }
+    return;
+  }
+
+  const registryPath = resolvePath(options.dir ?? ".");
+  const registry = await Registry.load(registryPath);
+  if (yanked) {
+    await registry.yank(id.username, id.name, id.version);
+  } else {
+    await registry.unyank(id.username, id.name, id.version);
+  }
+}
+
+export function registerYankCommands(program: Command): void {
+  program
+    .command("yank <package>")
+    .description("Yank a package version (user/pkg@version); it stays downloadable")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-r, --registry <url>", "Yank on a running registry server instead")
+    .option("-t, --token <token>", "Publish token (default: $MOONBIT_REGISTRY_TOKEN)")
+    .action(async (spec: string, options: YankCommandOptions) => {
+      try {
+        await runYank(spec, true, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  program
+    .command("unyank <package>")
+    .description("Restore a yanked package version (user/pkg@version)")
+    .option("-d, --dir <path>", "Registry directory (default: current directory)")
+    .option("-r, --registry <url>", "Unyank on a running registry server instead")
+    .option("-t, --token <token>", "Publish token (default: $MOONBIT_REGISTRY_TOKEN)")
+    .action(async (spec: string, options: YankCommandOptions) => {
+      try {
+        await runYank(spec, false, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+export default registerYankCommands;
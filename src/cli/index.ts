@@ -4,13 +4,26 @@
 
 import { Command } from "commander";
 import { setLogLevel, setQuiet } from "../utils/logger.ts";
+import { registerAclCommand } from "./commands/acl.ts";
+import { registerBundleCommand } from "./commands/bundle.ts";
 import { registerConfigCommand } from "./commands/config.ts";
+import { registerGcCommand } from "./commands/gc.ts";
+import { registerGraphCommand } from "./commands/graph.ts";
+import { registerInfoCommand } from "./commands/info.ts";
 import { registerInitCommand } from "./commands/init.ts";
+import { registerListCommand } from "./commands/list.ts";
 import { registerMirrorCommand } from "./commands/mirror.ts";
+import { registerPublishCommand } from "./commands/publish.ts";
+import { registerRdepsCommand } from "./commands/rdeps.ts";
+import { registerSearchCommand } from "./commands/search.ts";
 import { registerServeCommand } from "./commands/serve.ts";
 import { registerSourceCommand } from "./commands/source.ts";
+import { registerStatsCommand } from "./commands/stats.ts";
 import { registerSyncCommand } from "./commands/sync.ts";
+import { registerTokenCommand } from "./commands/token.ts";
 import { registerUpdateCommand } from "./commands/update.ts";
+import { registerVerifyCommand } from "./commands/verify.ts";
+import { registerYankCommands } from "./commands/yank.ts";
 
 export function createCli(): Command {
   const program = new Command();
@@ -34,11 +47,24 @@ export function createCli(): Command {
   // Register commands
   registerInitCommand(program);
   registerMirrorCommand(program);
+  registerPublishCommand(program);
+  registerYankCommands(program);
   registerServeCommand(program);
   registerConfigCommand(program);
   registerSourceCommand(program);
   registerSyncCommand(program);
   registerUpdateCommand(program);
+  registerVerifyCommand(program);
+  registerGcCommand(program);
+  registerStatsCommand(program);
+  registerListCommand(program);
+  registerInfoCommand(program);
+  registerSearchCommand(program);
+  registerRdepsCommand(program);
+  registerGraphCommand(program);
+  registerBundleCommand(program);
+  registerTokenCommand(program);
+  registerAclCommand(program);
 
   return program;
 }
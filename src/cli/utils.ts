@@ -3,8 +3,12 @@
  */
 
 import { resolve } from "node:path";
+import type { VersionFilter } from "../core/types.ts";
+import { parseDuration } from "../utils/duration.ts";
 import logger from "../utils/logger.ts";
 
+export { parseDuration };
+
 /** Format bytes as human-readable size */
 export function formatBytes(bytes: number): string {
   const units = ["B", "KB", "MB", "GB", "TB"];
@@ -19,24 +23,32 @@ export function formatBytes(bytes: number): string {
   return `${size.toFixed(1)} ${units[unitIndex]}`;
 }
 
-/** Parse a duration string (e.g., "1h", "30m") to milliseconds */
-export function parseDuration(duration: string): number {
-  const match = duration.match(/^(\d+)(s|m|h|d)$/);
-  if (!match) {
-    throw new Error(`Invalid duration format: ${duration}`);
+/** Build the default version filter from the --latest, --since and --skip-prerelease options */
+export function parseVersionFilter(options: {
+  latest?: string;
+  since?: string;
+  skipPrerelease?: boolean;
+}): VersionFilter | undefined {
+  const filter: VersionFilter = {};
+
+  if (options.latest !== undefined) {
+    const latest = Number(options.latest);
+    if (!Number.isInteger(latest) || latest < 1) {
+      throw new Error(`Invalid --latest value: ${options.latest} (expected a positive integer)`);
+    }
+    filter.latest = latest;
+  }
+  if (options.since !== undefined) {
+    if (Number.isNaN(Date.parse(options.since))) {
+      throw new Error(`Invalid --since date: ${options.since} (expected e.g. 2025-01-31)`);
+    }
+    filter.since = options.since;
+  }
+  if (options.skipPrerelease) {
+    filter.skip_prerelease = true;
   }
 
-  const value = Number.parseInt(match[1], 10);
-  const unit = match[2];
-
-  const multipliers: Record<string, number> = {
-    s: 1000,
-    m: 60 * 1000,
-    h: 60 * 60 * 1000,
-    d: 24 * 60 * 60 * 1000,
-  };
-
-  return value * multipliers[unit];
+  return Object.keys(filter).length > 0 ? filter : undefined;
 }
 
 /** Resolve a path relative to cwd */
@@ -67,6 +79,48 @@ export function printTable(data: Record<string, string | number | boolean>): voi
   }
 }
 
+/** Print rows as aligned columns under a header row */
+export function printColumns(headers: string[], rows: (string | number)[][]): void {
+  const cells = [headers, ...rows.map((row) => row.map(String))];
+  const widths = headers.map((_, i) => Math.max(...cells.map((row) => row[i]?.length ?? 0)));
+
+  for (const row of cells) {
+    const line = row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])));
+    console.log(`  ${line.join("  ")}`);
+  }
+}
+
+/** Environment variable holding the token for remote registry commands */
+export const TOKEN_ENV_VAR = "MOONBIT_REGISTRY_TOKEN";
+
+/** Call a JSON API endpoint on a running registry server */
+export async function callRegistryApi<T>(
+  registryUrl: string,
+  path: string,
+  init: { method?: string; body?: RequestInit["body"]; contentType?: string; token?: string } = {},
+): Promise<T> {
+  const headers = new Headers();
+  if (init.contentType) {
+    headers.set("Content-Type", init.contentType);
+  }
+  if (init.token) {
+    headers.set("Authorization", `Bearer ${init.token}`);
+  }
+
+  const response = await fetch(`${registryUrl.replace(/\/+$/, "")}${path}`, {
+    method: init.method ?? "GET",
+    headers,
+    body: init.body,
+  });
+
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(`Request failed (${response.status}): ${body.error ?? response.statusText}`);
+  }
+
+  return body;
+}
+
 /** Confirm an action with the user */
 export async function confirm(message: string): Promise<boolean> {
   process.stdout.write(`${message} [y/N] `);
@@ -86,8 +140,11 @@ export async function confirm(message: string): Promise<boolean> {
 export default {
   formatBytes,
   parseDuration,
+  parseVersionFilter,
   resolvePath,
   handleError,
   printTable,
+  printColumns,
+  callRegistryApi,
   confirm,
 };
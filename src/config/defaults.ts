@@ -13,8 +13,22 @@ export const CONFIG_FILE_NAME = "registry.toml";
 export const DATA_DIRS = {
   INDEX: "index",
   PACKAGES: "packages",
+  /** Per-token filtered copies of the index (see `[[acl]]`) */
+  INDEX_VIEWS: "index-views",
 } as const;
 
+/** Package access log (last download time per version) */
+export const ACCESS_LOG_FILE = "access.json";
+
+/** Package search index (names, descriptions and keywords) */
+export const SEARCH_INDEX_FILE = "search.json";
+
+/** Hashed API tokens */
+export const TOKENS_FILE = "tokens.json";
+
+/** Index commit of the last imported bundle (the base for delta bundles) */
+export const BUNDLE_STATE_FILE = "bundle-state.json";
+
 /** Default upstream URLs */
 export const UPSTREAM = {
   URL: "https://mooncakes.io",
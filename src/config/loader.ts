@@ -5,7 +5,7 @@
 import { existsSync } from "node:fs";
 import { join, resolve } from "node:path";
 import * as toml from "toml";
-import type { RegistryConfig } from "../core/types.ts";
+import type { MirrorPattern, RegistryConfig } from "../core/types.ts";
 import { DEFAULT_CONFIG } from "../core/types.ts";
 import fs from "../utils/fs.ts";
 import logger from "../utils/logger.ts";
@@ -62,6 +62,21 @@ export async function saveConfig(config: RegistryConfig, configPath: string): Pr
   logger.debug(`Saved config to ${configPath}`);
 }
 
+/** Format a mirror pattern as a TOML string or inline table */
+function mirrorPatternToToml(pattern: MirrorPattern, asTable: boolean): string {
+  if (typeof pattern === "string") {
+    return asTable ? `{ pattern = "${pattern}" }` : `"${pattern}"`;
+  }
+
+  const fields = [`pattern = "${pattern.pattern}"`];
+  if (pattern.latest !== undefined) fields.push(`latest = ${pattern.latest}`);
+  if (pattern.since) fields.push(`since = "${pattern.since}"`);
+  if (pattern.skip_prerelease !== undefined) {
+    fields.push(`skip_prerelease = ${pattern.skip_prerelease}`);
+  }
+  return `{ ${fields.join(", ")} }`;
+}
+
 /** Generate TOML content from config object */
 function generateToml(config: RegistryConfig): string {
   const lines: string[] = [];
@@ -121,13 +136,41 @@ function generateToml(config: RegistryConfig): string {
   lines.push("[mirror]");
   lines.push(`auto_sync = ${config.mirror.auto_sync}`);
   lines.push(`sync_interval = "${config.mirror.sync_interval}"`);
-  lines.push(`packages = [${config.mirror.packages.map((p) => `"${p}"`).join(", ")}]`);
+  // TOML arrays can't mix strings and tables, so any rule turns every entry into a table
+  const asTables = config.mirror.packages.some((p) => typeof p !== "string");
+  const packages = config.mirror.packages.map((p) => mirrorPatternToToml(p, asTables));
+  lines.push(`packages = [${packages.join(", ")}]`);
+  lines.push(`concurrency = ${config.mirror.concurrency}`);
+  lines.push(`retries = ${config.mirror.retries}`);
+  lines.push(`timeout = "${config.mirror.timeout}"`);
   lines.push("");
 
+  if (config.cache && Object.keys(config.cache).length > 0) {
+    lines.push("[cache]");
+    if (config.cache.max_size) lines.push(`max_size = "${config.cache.max_size}"`);
+    if (config.cache.keep_versions !== undefined) {
+      lines.push(`keep_versions = ${config.cache.keep_versions}`);
+    }
+    if (config.cache.max_age) lines.push(`max_age = "${config.cache.max_age}"`);
+    if (config.cache.prune_unmatched !== undefined) {
+      lines.push(`prune_unmatched = ${config.cache.prune_unmatched}`);
+    }
+    lines.push("");
+  }
+
   lines.push("[server]");
   lines.push(`host = "${config.server.host}"`);
   lines.push(`port = ${config.server.port}`);
   lines.push(`base_url = "${config.server.base_url}"`);
+  if (config.server.publish_token) {
+    lines.push(`publish_token = "${config.server.publish_token}"`);
+  }
+  if (config.server.require_auth !== undefined) {
+    lines.push(`require_auth = ${config.server.require_auth}`);
+  }
+  if (config.server.cors_origins) {
+    lines.push(`cors_origins = [${config.server.cors_origins.map((o) => `"${o}"`).join(", ")}]`);
+  }
   lines.push("");
 
   lines.push("[git]");
@@ -135,6 +178,16 @@ function generateToml(config: RegistryConfig): string {
   lines.push(`branch = "${config.git.branch}"`);
   lines.push(`auto_push = ${config.git.auto_push}`);
 
+  for (const rule of config.acl ?? []) {
+    const list = (values: string[]) => `[${values.map((v) => `"${v}"`).join(", ")}]`;
+    lines.push("");
+    lines.push("[[acl]]");
+    if (rule.tokens) lines.push(`tokens = ${list(rule.tokens)}`);
+    if (rule.groups) lines.push(`groups = ${list(rule.groups)}`);
+    lines.push(`packages = ${list(rule.packages)}`);
+    lines.push(`permissions = ${list(rule.permissions)}`);
+  }
+
   return `${lines.join("\n")}\n`;
 }
 
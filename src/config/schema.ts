@@ -2,7 +2,13 @@
  * Configuration schema and validation
  */
 
+import { ACL_PERMISSIONS } from "../core/acl.ts";
 import type {
+  AclPermission,
+  AclRule,
+  CachePolicy,
+  MirrorPackageRule,
+  MirrorPattern,
   MirrorSource,
   RegistryConfig,
   SmartHttpConfig,
@@ -10,6 +16,8 @@ import type {
   SourceType,
 } from "../core/types.ts";
 import { DEFAULT_CONFIG } from "../core/types.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { parseSize } from "../utils/size.ts";
 
 /** Validation error */
 export class ConfigValidationError extends Error {
@@ -50,12 +58,15 @@ function validateNumber(value: unknown, field: string, min?: number, max?: numbe
   return value;
 }
 
-/** Validate a boolean field */
-function validateBoolean(value: unknown, field: string): boolean {
-  if (typeof value !== "boolean") {
-    throw new ConfigValidationError("Must be a boolean", field);
+/** Validate a duration field (e.g., "30s", "5m") */
+function validateDuration(value: unknown, field: string): string {
+  const duration = validateString(value, field);
+  try {
+    parseDuration(duration);
+  } catch {
+    throw new ConfigValidationError("Must be a duration like '30s', '5m' or '1h'", field);
   }
-  return value;
+  return duration;
 }
 
 /** Validate an array of strings */
@@ -63,12 +74,15 @@ function validateStringArray(value: unknown, field: string): string[] {
   if (!Array.isArray(value)) {
     throw new ConfigValidationError("Must be an array", field);
   }
-  return value.map((item, i) => {
-    if (typeof item !== "string") {
-      throw new ConfigValidationError(`Item at index ${i} must be a string`, field);
-    }
-    return item;
-  });
+  return value.map((item, i) => validateString(item, `${field}[${i}]`));
+}
+
+/** Validate a boolean field */
+function validateBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ConfigValidationError("Must be a boolean", field);
+  }
+  return value;
 }
 
 /** Deep clone an object */
@@ -199,6 +213,115 @@ function validateSourcesArray(value: unknown, field: string): MirrorSource[] {
   return value.map((item, i) => validateMirrorSource(item, i));
 }
 
+/** Validate a single `mirror.packages` entry (glob string or rule table) */
+function validateMirrorPattern(value: unknown, field: string): MirrorPattern {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigValidationError("Must be a string or a table", field);
+  }
+
+  const entry = value as Partial<Record<keyof MirrorPackageRule, unknown>>;
+  const rule: MirrorPackageRule = {
+    pattern: validateString(entry.pattern, `${field}.pattern`, true),
+  };
+  if (entry.latest !== undefined) {
+    rule.latest = validateNumber(entry.latest, `${field}.latest`, 1);
+  }
+  if (entry.since !== undefined) {
+    rule.since = validateString(entry.since, `${field}.since`);
+    if (Number.isNaN(Date.parse(rule.since))) {
+      throw new ConfigValidationError("Must be a date (e.g. 2025-01-31)", `${field}.since`);
+    }
+  }
+  if (entry.skip_prerelease !== undefined) {
+    rule.skip_prerelease = validateBoolean(entry.skip_prerelease, `${field}.skip_prerelease`);
+  }
+  return rule;
+}
+
+/** Validate the `mirror.packages` array */
+function validateMirrorPatterns(value: unknown, field: string): MirrorPattern[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError("Must be an array", field);
+  }
+  return value.map((item, i) => validateMirrorPattern(item, `${field}[${i}]`));
+}
+
+/** Validate an `[[acl]]` rule */
+function validateAclRule(value: unknown, field: string): AclRule {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigValidationError("Must be a table", field);
+  }
+
+  const entry = value as Partial<Record<keyof AclRule, unknown>>;
+  const rule: AclRule = {
+    packages: validateStringArray(entry.packages ?? [], `${field}.packages`),
+    permissions: validateStringArray(entry.permissions ?? [], `${field}.permissions`).map(
+      (permission, i) => {
+        if (!ACL_PERMISSIONS.includes(permission as AclPermission)) {
+          throw new ConfigValidationError(
+            `Must be one of ${ACL_PERMISSIONS.join(", ")}`,
+            `${field}.permissions[${i}]`,
+          );
+        }
+        return permission as AclPermission;
+      },
+    ),
+  };
+  if (entry.tokens !== undefined) {
+    rule.tokens = validateStringArray(entry.tokens, `${field}.tokens`);
+  }
+  if (entry.groups !== undefined) {
+    rule.groups = validateStringArray(entry.groups, `${field}.groups`);
+  }
+
+  if (rule.packages.length === 0) {
+    throw new ConfigValidationError("Must list at least one package glob", `${field}.packages`);
+  }
+  if (!rule.tokens?.length && !rule.groups?.length) {
+    throw new ConfigValidationError("Must name at least one token or group", field);
+  }
+  return rule;
+}
+
+/** Validate the `[[acl]]` rules */
+function validateAclRules(value: unknown, field: string): AclRule[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError("Must be an array of tables", field);
+  }
+  return value.map((item, i) => validateAclRule(item, `${field}[${i}]`));
+}
+
+/** Validate cache retention policies */
+function validateCachePolicy(value: unknown, field: string): CachePolicy {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigValidationError("Must be a table", field);
+  }
+
+  const cache = value as Partial<Record<keyof CachePolicy, unknown>>;
+  const policy: CachePolicy = {};
+  if (cache.max_size !== undefined) {
+    policy.max_size = validateString(cache.max_size, `${field}.max_size`);
+    try {
+      parseSize(policy.max_size);
+    } catch {
+      throw new ConfigValidationError("Must be a size like '500MB' or '10GB'", `${field}.max_size`);
+    }
+  }
+  if (cache.keep_versions !== undefined) {
+    policy.keep_versions = validateNumber(cache.keep_versions, `${field}.keep_versions`, 1);
+  }
+  if (cache.max_age !== undefined) {
+    policy.max_age = validateDuration(cache.max_age, `${field}.max_age`);
+  }
+  if (cache.prune_unmatched !== undefined) {
+    policy.prune_unmatched = validateBoolean(cache.prune_unmatched, `${field}.prune_unmatched`);
+  }
+  return policy;
+}
+
 /** Validate smart HTTP configuration */
 function validateSmartHttpConfig(value: unknown, field: string): SmartHttpConfig | undefined {
   if (value === undefined || value === null) {
@@ -225,7 +348,7 @@ export function validateConfig(raw: unknown): RegistryConfig {
     throw new ConfigValidationError("Configuration must be an object", "root");
   }
 
-  const config = raw as Record<string, unknown>;
+  const config = raw as Partial<Record<keyof RegistryConfig, unknown>>;
 
   // Start with defaults
   const result = deepMerge(DEFAULT_CONFIG, {});
@@ -275,21 +398,39 @@ export function validateConfig(raw: unknown): RegistryConfig {
 
   // Validate mirror section
   if (config.mirror && typeof config.mirror === "object") {
-    const mirror = config.mirror as Record<string, unknown>;
+    const mirror = config.mirror as Partial<Record<keyof RegistryConfig["mirror"], unknown>>;
     if (mirror.auto_sync !== undefined) {
       result.mirror.auto_sync = validateBoolean(mirror.auto_sync, "mirror.auto_sync");
     }
     if (mirror.sync_interval !== undefined) {
-      result.mirror.sync_interval = validateString(mirror.sync_interval, "mirror.sync_interval");
+      const interval = validateDuration(mirror.sync_interval, "mirror.sync_interval");
+      if (parseDuration(interval) === 0) {
+        throw new ConfigValidationError("Must be longer than zero", "mirror.sync_interval");
+      }
+      result.mirror.sync_interval = interval;
     }
     if (mirror.packages !== undefined) {
-      result.mirror.packages = validateStringArray(mirror.packages, "mirror.packages");
+      result.mirror.packages = validateMirrorPatterns(mirror.packages, "mirror.packages");
+    }
+    if (mirror.concurrency !== undefined) {
+      result.mirror.concurrency = validateNumber(mirror.concurrency, "mirror.concurrency", 1, 64);
+    }
+    if (mirror.retries !== undefined) {
+      result.mirror.retries = validateNumber(mirror.retries, "mirror.retries", 0, 10);
+    }
+    if (mirror.timeout !== undefined) {
+      result.mirror.timeout = validateDuration(mirror.timeout, "mirror.timeout");
     }
   }
 
+  // Validate cache section
+  if (config.cache !== undefined) {
+    result.cache = validateCachePolicy(config.cache, "cache");
+  }
+
   // Validate server section
   if (config.server && typeof config.server === "object") {
-    const server = config.server as Record<string, unknown>;
+    const server = config.server as Partial<Record<keyof RegistryConfig["server"], unknown>>;
     if (server.host !== undefined) {
       result.server.host = validateString(server.host, "server.host");
     }
@@ -302,6 +443,15 @@ export function validateConfig(raw: unknown): RegistryConfig {
     if (server.smart_http !== undefined) {
       result.server.smart_http = validateSmartHttpConfig(server.smart_http, "server.smart_http");
     }
+    if (server.publish_token !== undefined) {
+      result.server.publish_token = validateString(server.publish_token, "server.publish_token");
+    }
+    if (server.require_auth !== undefined) {
+      result.server.require_auth = validateBoolean(server.require_auth, "server.require_auth");
+    }
+    if (server.cors_origins !== undefined) {
+      result.server.cors_origins = validateStringArray(server.cors_origins, "server.cors_origins");
+    }
   }
 
   // Validate git section
@@ -318,6 +468,11 @@ export function validateConfig(raw: unknown): RegistryConfig {
     }
   }
 
+  // Validate ACL rules
+  if (config.acl !== undefined) {
+    result.acl = validateAclRules(config.acl, "acl");
+  }
+
   return result;
 }
 
@@ -0,0 +1,127 @@
+/**
+ * Package access tracking
+ *
+ * Records when each cached package version was last served so retention
+ * policies can evict versions nobody downloads. Timestamps live in a JSON
+ * file in the data directory; writes are batched so serving stays cheap.
+ * A flush merges local changes into the file on disk, so a server and a CLI
+ * command sharing the data directory keep each other's times, and pending
+ * changes are flushed before the process exits.
+ */
+
+import { existsSync } from "node:fs";
+import { Mutex } from "../utils/concurrency.ts";
+import fs from "../utils/fs.ts";
+import logger from "../utils/logger.ts";
+
+/** Delay before batched access times are written */
+const SAVE_DELAY_MS = 5_000;
+
+export class AccessTracker {
+  private path: string;
+  private times: Map<string, string> | null = null;
+  /** Changes not yet written to disk; null marks a forgotten version */
+  private pending = new Map<string, string | null>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private writes = new Mutex();
+  private readonly flushOnExit = () => {
+    this.flush().catch((err) => logger.warn(`Failed to save access log: ${err}`));
+  };
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /** Record an access to a package version (e.g. "user/pkg@1.0.0") */
+  async touch(id: string): Promise<void> {
+    const times = await this.load();
+    const time = new Date().toISOString();
+    times.set(id, time);
+    this.pending.set(id, time);
+    this.scheduleSave();
+  }
+
+  /** Get the last access time of a package version */
+  async lastAccess(id: string): Promise<Date | null> {
+    const time = (await this.load()).get(id);
+    return time ? new Date(time) : null;
+  }
+
+  /** Forget a package version (after it is removed from the cache) */
+  async forget(id: string): Promise<void> {
+    if ((await this.load()).delete(id)) {
+      this.pending.set(id, null);
+      this.scheduleSave();
+    }
+  }
+
+  /** Merge pending access times into the log on disk */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    process.off("beforeExit", this.flushOnExit);
+
+    await this.writes.run(async () => {
+      if (this.pending.size === 0) return;
+
+      const changes = this.pending;
+      this.pending = new Map();
+      const times = applyChanges(await this.read(), changes);
+      await fs.writeJson(this.path, Object.fromEntries(times));
+      // Keep changes made while the log was being read
+      this.times = applyChanges(times, this.pending);
+    });
+  }
+
+  /** Load access times from disk on first use */
+  private async load(): Promise<Map<string, string>> {
+    if (this.times) return this.times;
+
+    const times = await this.read();
+    this.times ??= times;
+    return this.times;
+  }
+
+  /** Read the access log on disk */
+  private async read(): Promise<Map<string, string>> {
+    if (!existsSync(this.path)) return new Map();
+
+    try {
+      return new Map(Object.entries(await fs.readJson<Record<string, string>>(this.path)));
+    } catch (err) {
+      logger.warn(`Ignoring unreadable access log ${this.path}: ${err}`);
+      return new Map();
+    }
+  }
+
+  /** Save soon, batching accesses that arrive in the meantime */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch((err) => logger.warn(`Failed to save access log: ${err}`));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+    process.once("beforeExit", this.flushOnExit);
+  }
+}
+
+/** Apply pending changes to access times, keeping the later of two times */
+function applyChanges(
+  times: Map<string, string>,
+  changes: Map<string, string | null>,
+): Map<string, string> {
+  for (const [id, time] of changes) {
+    if (time === null) {
+      times.delete(id);
+    } else if ((times.get(id) ?? "") < time) {
+      times.set(id, time);
+    }
+  }
+  return times;
+}
+
+export default AccessTracker;
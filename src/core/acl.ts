@@ -0,0 +1,90 @@
+/**
+ * Per-namespace access control
+ *
+ * `[[acl]]` rules grant tokens or token groups read, publish or yank
+ * permissions on `user/pkg` globs. A package covered by at least one rule is
+ * restricted to the subjects of its rules; packages no rule covers are only
+ * subject to token scopes. Tokens with the `admin` scope bypass the rules.
+ */
+
+import { matchGlob } from "./dependency-resolver.ts";
+import { hasScope } from "./token-store.ts";
+import type { AclDecision, AclPermission, AclRule, TokenIdentity } from "./types.ts";
+
+/** Every ACL permission */
+export const ACL_PERMISSIONS: AclPermission[] = ["read", "publish", "yank"];
+
+/** Describe a rule for decision messages */
+function describeRule(rule: AclRule, index: number): string {
+  return `rule #${index + 1} for ${rule.packages.join(", ")}`;
+}
+
+/** Describe the subject of a rule matching an identity */
+function describeSubject(rule: AclRule, identity: TokenIdentity): string {
+  const group = rule.groups?.find((g) => identity.groups?.includes(g));
+  return group ? `group '${group}'` : `token '${identity.name}'`;
+}
+
+export class AccessControl {
+  private rules: AclRule[];
+
+  constructor(rules: AclRule[] = []) {
+    this.rules = rules;
+  }
+
+  /** Check whether a rule applies to an identity */
+  private matchesSubject(rule: AclRule, identity: TokenIdentity): boolean {
+    if (rule.tokens?.some((t) => t === "*" || t === identity.name || t === identity.id)) {
+      return true;
+    }
+    return rule.groups?.some((g) => identity.groups?.includes(g)) ?? false;
+  }
+
+  /** Decide whether an identity (null when anonymous) may act on a package */
+  check(identity: TokenIdentity | null, pkg: string, action: AclPermission): AclDecision {
+    if (action !== "read" && identity && !hasScope(identity, "publish")) {
+      return { allowed: false, reason: `token '${identity.name}' lacks the 'publish' scope` };
+    }
+    if (identity && hasScope(identity, "admin")) {
+      return { allowed: true, reason: `token '${identity.name}' has the 'admin' scope` };
+    }
+
+    const covering = this.rules
+      .map((rule, index) => ({ rule, index }))
+      .filter(({ rule }) => rule.packages.some((glob) => matchGlob(pkg, glob)));
+    if (covering.length === 0) {
+      return { allowed: true, reason: `no ACL rule covers ${pkg}` };
+    }
+
+    const covered = covering.map(({ rule, index }) => describeRule(rule, index)).join(", ");
+    if (!identity) {
+      return {
+        allowed: false,
+        reason: `${pkg} is covered by ${covered} and the request is anonymous`,
+      };
+    }
+
+    const granting = covering.find(
+      ({ rule }) => this.matchesSubject(rule, identity) && rule.permissions.includes(action),
+    );
+    if (granting) {
+      return {
+        allowed: true,
+        reason: `${describeRule(granting.rule, granting.index)} grants ${action} to ${describeSubject(granting.rule, identity)}`,
+        rule: granting.index,
+      };
+    }
+
+    return {
+      allowed: false,
+      reason: `none of the rules covering ${pkg} (${covered}) grants ${action} to token '${identity.name}'`,
+    };
+  }
+
+  /** Keep the packages an identity may read */
+  filterReadable(identity: TokenIdentity | null, packages: string[]): string[] {
+    return packages.filter((pkg) => this.check(identity, pkg, "read").allowed);
+  }
+}
+
+export default AccessControl;
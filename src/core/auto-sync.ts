@@ -0,0 +1,175 @@
+/**
+ * Background auto-sync for `mirror.auto_sync`
+ *
+ * Periodically re-syncs every enabled source index, re-mirrors the configured
+ * `mirror.packages` patterns, and commits the served index. Runs are chained
+ * with timers so a slow sync never overlaps the next one, and index changes
+ * take the registry's index lock so they never overlap publishes or yanks.
+ */
+
+import logger from "../utils/logger.ts";
+import { RegistryError } from "./errors.ts";
+import type { Registry } from "./registry.ts";
+
+const log = logger.create("auto-sync");
+
+/** Outcome of syncing a single source index */
+export interface SourceSyncResult {
+  name: string;
+  success: boolean;
+  error?: string;
+}
+
+/** Outcome of one auto-sync run */
+export interface AutoSyncResult {
+  started_at: string;
+  finished_at: string;
+  success: boolean;
+  sources: SourceSyncResult[];
+  mirrored: boolean;
+  error?: string;
+}
+
+/** Current auto-sync state (served by the status endpoint) */
+export interface AutoSyncStatus {
+  enabled: boolean;
+  interval_ms: number;
+  running: boolean;
+  last_run: AutoSyncResult | null;
+  next_run: string | null;
+}
+
+export class AutoSync {
+  private registry: Registry;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private stopped = true;
+  private lastRun: AutoSyncResult | null = null;
+  private nextRun: Date | null = null;
+
+  constructor(registry: Registry, intervalMs: number) {
+    if (!(intervalMs > 0)) {
+      throw new RegistryError("Auto-sync interval must be longer than zero", "invalid");
+    }
+    this.registry = registry;
+    this.intervalMs = intervalMs;
+  }
+
+  /** Start syncing immediately and then every interval */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    log.info(`Auto-sync enabled (every ${Math.round(this.intervalMs / 1000)}s)`);
+    this.schedule(0);
+  }
+
+  /** Stop scheduling further runs (an in-progress run completes) */
+  stop(): void {
+    this.stopped = true;
+    this.nextRun = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Run a single sync pass */
+  async runOnce(): Promise<AutoSyncResult> {
+    if (this.running) {
+      throw new Error("Auto-sync is already running");
+    }
+
+    this.running = true;
+    const startedAt = new Date();
+    const sources: SourceSyncResult[] = [];
+    let mirrored = false;
+    let error: string | undefined;
+
+    try {
+      for (const source of this.registry.sourceManager.listEnabledSources()) {
+        try {
+          await this.registry.withIndexLock(() =>
+            this.registry.indexManager.syncSourceIndex(source.name),
+          );
+          sources.push({ name: source.name, success: true });
+        } catch (err) {
+          log.warn(`Failed to sync index for '${source.name}': ${err}`);
+          sources.push({ name: source.name, success: false, error: String(err) });
+        }
+      }
+
+      const patterns = this.registry.config.mirror.packages;
+      if (patterns.length > 0) {
+        await this.registry.mirror({
+          patterns,
+          full: false,
+          strict: false,
+          quiet: true,
+          skipIndexSync: true,
+        });
+        mirrored = true;
+      }
+
+      await this.registry.withIndexLock(() =>
+        this.registry.indexManager.commit(`Auto-sync at ${startedAt.toISOString()}`),
+      );
+    } catch (err) {
+      log.error(`Auto-sync failed: ${err}`);
+      error = String(err);
+    } finally {
+      this.running = false;
+    }
+
+    const result: AutoSyncResult = {
+      started_at: startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      success: !error && sources.every((s) => s.success),
+      sources,
+      mirrored,
+      error,
+    };
+
+    this.lastRun = result;
+    return result;
+  }
+
+  /** Get the current status */
+  getStatus(): AutoSyncStatus {
+    return {
+      enabled: !this.stopped,
+      interval_ms: this.intervalMs,
+      running: this.running,
+      last_run: this.lastRun,
+      next_run: this.nextRun?.toISOString() ?? null,
+    };
+  }
+
+  /** Schedule the next run */
+  private schedule(delayMs: number): void {
+    if (this.stopped) return;
+
+    this.nextRun = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.nextRun = null;
+
+      const result = await this.runOnce();
+      if (result.success) {
+        log.success(`Auto-sync completed in ${elapsed(result)}`);
+      } else {
+        log.warn(`Auto-sync finished with errors in ${elapsed(result)}`);
+      }
+
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+}
+
+/** Format the duration of a run */
+function elapsed(result: AutoSyncResult): string {
+  const ms = Date.parse(result.finished_at) - Date.parse(result.started_at);
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export default AutoSync;
@@ -0,0 +1,435 @@
+/**
+ * Offline bundles for air-gapped registries
+ *
+ * A bundle is a single stored ZIP archive holding a `bundle.json` manifest
+ * with the checksum of every package version, the package archives under
+ * `packages/` and their served index lines under `index/`. Bundles are built
+ * and read in memory, and are limited to 4 GiB by the ZIP format.
+ *
+ * Delta bundles only carry what changed in the served index since a base
+ * commit. Importing one requires the target to be at that base: the index
+ * commit of the last imported bundle, or the target's own index commit when
+ * it is a copy of the exporting registry.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import crypto from "../utils/crypto.ts";
+import fs from "../utils/fs.ts";
+import logger from "../utils/logger.ts";
+import {
+  type ZipEntry,
+  type ZipInput,
+  createZip,
+  extractEntry,
+  listEntries,
+  readEntry,
+} from "../utils/zip.ts";
+import { RegistryError } from "./errors.ts";
+import type IndexManager from "./index-manager.ts";
+import { isValidVersion } from "./module.ts";
+import type PackageStore from "./package-store.ts";
+import { sortVersions } from "./semver.ts";
+import type {
+  BundleExportReport,
+  BundleImportReport,
+  BundleManifest,
+  BundlePackage,
+  BundleState,
+  PackageEntry,
+} from "./types.ts";
+import { formatPackageVersionId, parsePackageId } from "./types.ts";
+
+/** Bundle format version written by this release */
+export const BUNDLE_FORMAT = 1;
+
+/** Manifest file name inside a bundle */
+export const BUNDLE_MANIFEST_FILE = "bundle.json";
+
+/** Options for exporting a bundle */
+export interface BundleExportOptions {
+  /** Name of the exporting registry */
+  registry: string;
+  /** Served index commit of the exporting registry */
+  indexCommit: string | null;
+  /** Index commit a delta bundle is diffed from */
+  base?: string;
+}
+
+/** Package versions to write to a bundle */
+export interface BundleSelection {
+  /** Versions bundled with their archives */
+  packages: Map<string, Set<string>>;
+  /** Versions bundled as index lines only */
+  updates?: Map<string, Set<string>>;
+}
+
+export class Bundler {
+  private indexManager: IndexManager;
+  private packageStore: PackageStore;
+  private statePath: string;
+
+  constructor(indexManager: IndexManager, packageStore: PackageStore, statePath: string) {
+    this.indexManager = indexManager;
+    this.packageStore = packageStore;
+    this.statePath = statePath;
+  }
+
+  /**
+   * Write the selected versions of served packages to a bundle. Versions
+   * that are not cached are fetched through the enabled sources first.
+   */
+  async export(
+    selection: BundleSelection,
+    output: string,
+    options: BundleExportOptions,
+  ): Promise<BundleExportReport> {
+    const files: ZipInput[] = [];
+    const packages: BundlePackage[] = [];
+    const updates: BundleManifest["updates"] = [];
+    const missing: string[] = [];
+    const updated = selection.updates ?? new Map<string, Set<string>>();
+    const names = new Set([...selection.packages.keys(), ...updated.keys()]);
+
+    for (const pkgName of Array.from(names).sort()) {
+      const pkgId = parsePackageId(pkgName);
+      if (!pkgId) continue;
+
+      const metadata = await this.indexManager.getPackage(pkgId.username, pkgId.name);
+      const lines: PackageEntry[] = [];
+
+      for (const version of sortVersions(Array.from(updated.get(pkgName) ?? []))) {
+        const entry = metadata?.versions.find((v) => v.version === version);
+        if (!entry) continue;
+        updates.push({ name: pkgName, version, checksum: entry.checksum });
+        lines.push({ name: pkgName, ...entry });
+      }
+
+      const versions = sortVersions(Array.from(selection.packages.get(pkgName) ?? []));
+      for (const version of versions) {
+        const id = formatPackageVersionId({ ...pkgId, version });
+        const entry = metadata?.versions.find((v) => v.version === version);
+        if (!entry) {
+          missing.push(id);
+          continue;
+        }
+
+        let data: Buffer;
+        try {
+          const path = await this.packageStore.downloadPackageWithFallback(
+            pkgId.username,
+            pkgId.name,
+            version,
+            entry.checksum,
+          );
+          data = await readFile(path);
+        } catch (err) {
+          logger.warn(`Leaving ${id} out of the bundle: ${err}`);
+          missing.push(id);
+          continue;
+        }
+
+        const checksum = crypto.sha256(data);
+        if (checksum !== entry.checksum.toLowerCase()) {
+          logger.warn(`Leaving ${id} out of the bundle: checksum mismatch (run verify --repair)`);
+          missing.push(id);
+          continue;
+        }
+
+        files.push({ name: packagePath(pkgName, version), data });
+        packages.push({ name: pkgName, version, checksum, size: data.length });
+        lines.push({ name: pkgName, ...entry });
+      }
+
+      if (lines.length > 0) {
+        files.push({ name: indexPath(pkgName), data: toJsonl(lines) });
+      }
+    }
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      created_at: new Date().toISOString(),
+      registry: options.registry,
+      index_commit: options.indexCommit,
+      base: options.base ?? null,
+      packages,
+      updates,
+    };
+    files.unshift({ name: BUNDLE_MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+
+    await Bun.write(output, createZip(files));
+    const { size } = await stat(output);
+    return { manifest, size, missing };
+  }
+
+  /**
+   * Import a bundle into the package store and served index. Every archive
+   * is verified against the manifest and its index line before anything is
+   * written, and versions already in the served index must have the same
+   * checksum. A delta bundle is refused unless this registry is at its base.
+   * The caller commits the index.
+   */
+  async import(path: string): Promise<BundleImportReport> {
+    if (!fs.exists(path)) {
+      throw new RegistryError(`Bundle not found: ${path}`, "not_found");
+    }
+
+    const data = new Uint8Array(await readFile(path));
+    let entries: Map<string, ZipEntry>;
+    try {
+      entries = new Map(listEntries(data).map((e) => [e.name, e]));
+    } catch (err) {
+      throw new RegistryError(`Invalid bundle ${path}: ${(err as Error).message}`, "invalid");
+    }
+    const read = (name: string): Uint8Array | null => {
+      const entry = entries.get(name);
+      return entry ? extractEntry(data, entry) : null;
+    };
+
+    const manifest = parseManifest(read(BUNDLE_MANIFEST_FILE), path);
+    if (manifest.base !== null) {
+      const current = await this.currentIndexCommit();
+      if (current !== manifest.base) {
+        throw new RegistryError(
+          `Bundle ${path} is a delta from index commit ${manifest.base}, but this registry is at ${current ?? "no known commit"} (import the bundles in between or a full bundle)`,
+          "conflict",
+        );
+      }
+    }
+
+    const indexLines = new Map<string, Map<string, PackageEntry>>();
+    const archives = new Map<BundlePackage, Uint8Array>();
+    const errors: string[] = [];
+
+    for (const pkg of manifest.packages) {
+      const id = `${pkg.name}@${pkg.version}`;
+      const pkgId = parsePackageId(pkg.name);
+      if (!pkgId || !isValidVersion(pkg.version) || typeof pkg.checksum !== "string") {
+        errors.push(`${id}: invalid package name, version or checksum`);
+        continue;
+      }
+
+      if (!indexLines.has(pkg.name)) {
+        const file = indexPath(pkg.name);
+        indexLines.set(pkg.name, parseIndexLines(read(file), file));
+      }
+      const line = indexLines.get(pkg.name)?.get(pkg.version);
+      const archive = read(packagePath(pkg.name, pkg.version));
+      if (!archive) {
+        errors.push(`${id}: archive missing from the bundle`);
+        continue;
+      }
+      if (!line) {
+        errors.push(`${id}: index entry missing from the bundle`);
+        continue;
+      }
+      if (line.name !== pkg.name || line.version !== pkg.version) {
+        errors.push(`${id}: index entry is for ${line.name}@${line.version}`);
+        continue;
+      }
+
+      const checksum = crypto.sha256(Buffer.from(archive));
+      if (checksum !== pkg.checksum.toLowerCase() || checksum !== line.checksum.toLowerCase()) {
+        errors.push(`${id}: checksum mismatch (expected ${pkg.checksum}, got ${checksum})`);
+        continue;
+      }
+
+      const existing = await this.indexManager.getPackage(pkgId.username, pkgId.name);
+      const served = existing?.versions.find((v) => v.version === pkg.version);
+      if (served && served.checksum.toLowerCase() !== checksum) {
+        throw new RegistryError(
+          `${id} is already in the index with a different checksum (${served.checksum})`,
+          "conflict",
+        );
+      }
+
+      archives.set(pkg, archive);
+    }
+
+    const applicable: BundleManifest["updates"] = [];
+    for (const update of manifest.updates) {
+      const id = `${update.name}@${update.version}`;
+      const pkgId = parsePackageId(update.name);
+      if (!pkgId || !isValidVersion(update.version) || typeof update.checksum !== "string") {
+        errors.push(`${id}: invalid package name, version or checksum`);
+        continue;
+      }
+      if (!indexLines.has(update.name)) {
+        const file = indexPath(update.name);
+        indexLines.set(update.name, parseIndexLines(read(file), file));
+      }
+      const line = indexLines.get(update.name)?.get(update.version);
+      if (
+        line?.name !== update.name ||
+        line.version !== update.version ||
+        line.checksum.toLowerCase() !== update.checksum.toLowerCase()
+      ) {
+        errors.push(`${id}: index entry missing from the bundle or not matching the manifest`);
+        continue;
+      }
+
+      // Updates to versions this registry never received are ignored
+      const existing = await this.indexManager.getPackage(pkgId.username, pkgId.name);
+      const served = existing?.versions.find((v) => v.version === update.version);
+      if (!served) continue;
+      if (served.checksum.toLowerCase() !== update.checksum.toLowerCase()) {
+        throw new RegistryError(
+          `${id} is already in the index with a different checksum (${served.checksum})`,
+          "conflict",
+        );
+      }
+      applicable.push(update);
+    }
+
+    if (errors.length > 0) {
+      throw new RegistryError(
+        `Bundle verification failed for ${path}:\n  ${errors.join("\n  ")}`,
+        "invalid",
+      );
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const [pkg, archive] of archives) {
+      const [username, name] = pkg.name.split("/");
+      const cached = this.packageStore.getPackagePath(username, name, pkg.version);
+      if (fs.exists(cached) && (await crypto.verifyChecksum(cached, pkg.checksum))) {
+        skipped++;
+        continue;
+      }
+      await this.packageStore.storePackage(username, name, pkg.version, archive);
+      imported++;
+    }
+
+    const lines = [...applicable, ...manifest.packages].flatMap((pkg) => {
+      const line = indexLines.get(pkg.name)?.get(pkg.version);
+      return line ? [line] : [];
+    });
+    const indexChanged = await this.indexManager.mergeEntries(lines);
+
+    if (manifest.index_commit) {
+      const state: BundleState = {
+        registry: manifest.registry,
+        index_commit: manifest.index_commit,
+        imported_at: new Date().toISOString(),
+      };
+      await fs.writeJson(this.statePath, state);
+    }
+
+    return { manifest, imported, skipped, index_changed: indexChanged };
+  }
+
+  /** Read the state recorded by the last bundle import (null before the first) */
+  private async readState(): Promise<BundleState | null> {
+    return fs.exists(this.statePath) ? fs.readJson<BundleState>(this.statePath) : null;
+  }
+
+  /** Index commit this registry is at, as far as bundles are concerned */
+  private async currentIndexCommit(): Promise<string | null> {
+    const state = await this.readState();
+    if (state) return state.index_commit;
+    return (await this.indexManager.getLastCommit())?.hash ?? null;
+  }
+}
+
+/**
+ * Read the manifest of a bundle, or of a `bundle.json` extracted from one
+ * (used as the base of a delta bundle)
+ */
+export async function readBundleManifest(path: string): Promise<BundleManifest> {
+  if (!fs.exists(path)) {
+    throw new RegistryError(`Bundle not found: ${path}`, "not_found");
+  }
+
+  const data = new Uint8Array(await readFile(path));
+  if (path.endsWith(".json")) {
+    return parseManifest(data, path);
+  }
+
+  let manifest: Uint8Array | null;
+  try {
+    manifest = readEntry(data, BUNDLE_MANIFEST_FILE);
+  } catch (err) {
+    throw new RegistryError(`Invalid bundle ${path}: ${(err as Error).message}`, "invalid");
+  }
+  return parseManifest(manifest, path);
+}
+
+/** Path of a package archive inside a bundle */
+function packagePath(pkgName: string, version: string): string {
+  return `packages/${pkgName}/${version}.zip`;
+}
+
+/** Path of a package's index lines inside a bundle */
+function indexPath(pkgName: string): string {
+  return `index/${pkgName}`;
+}
+
+/** Serialize index entries as JSONL */
+function toJsonl(entries: PackageEntry[]): string {
+  return `${entries.map((e) => JSON.stringify(e)).join("\n")}\n`;
+}
+
+/** Parse a package's index lines, keyed by version */
+function parseIndexLines(data: Uint8Array | null, file: string): Map<string, PackageEntry> {
+  const lines = new Map<string, PackageEntry>();
+  if (!data) return lines;
+
+  const texts = new TextDecoder().decode(data).split("\n");
+  for (const [index, text] of texts.entries()) {
+    if (!text.trim()) continue;
+    let entry: PackageEntry;
+    try {
+      entry = JSON.parse(text) as PackageEntry;
+    } catch (err) {
+      throw new RegistryError(`Invalid index line ${file}:${index + 1}: ${err}`, "invalid");
+    }
+    if (
+      typeof entry?.name !== "string" ||
+      typeof entry.version !== "string" ||
+      typeof entry.checksum !== "string"
+    ) {
+      throw new RegistryError(
+        `Invalid index line ${file}:${index + 1}: name, version and checksum must be strings`,
+        "invalid",
+      );
+    }
+    lines.set(entry.version, entry);
+  }
+  return lines;
+}
+
+/** Parse and validate a bundle manifest */
+function parseManifest(data: Uint8Array | null, path: string): BundleManifest {
+  if (!data) {
+    throw new RegistryError(`Invalid bundle ${path}: ${BUNDLE_MANIFEST_FILE} not found`, "invalid");
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(data)) as BundleManifest;
+  } catch (err) {
+    throw new RegistryError(`Invalid bundle ${path}: ${err}`, "invalid");
+  }
+
+  if (manifest?.format !== BUNDLE_FORMAT) {
+    throw new RegistryError(
+      `Unsupported bundle format in ${path} (expected format ${BUNDLE_FORMAT}, got ${manifest?.format})`,
+      "invalid",
+    );
+  }
+  if (!Array.isArray(manifest.packages)) {
+    throw new RegistryError(`Invalid bundle ${path}: missing package list`, "invalid");
+  }
+  const updates = Array.isArray(manifest.updates) ? manifest.updates : [];
+  if ([...manifest.packages, ...updates].some((p) => typeof p !== "object" || !p)) {
+    throw new RegistryError(`Invalid bundle ${path}: package entries must be objects`, "invalid");
+  }
+
+  return {
+    ...manifest,
+    base: manifest.base ?? null,
+    updates,
+  };
+}
+
+export default Bundler;
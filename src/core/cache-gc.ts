@@ -0,0 +1,197 @@
+/**
+ * Package cache garbage collection
+ *
+ * Applies the `[cache]` retention policies: pruning packages that no longer
+ * match `mirror.packages`, keeping the newest N versions per package, evicting
+ * versions not downloaded for a while, and enforcing a maximum cache size.
+ * Versions that no enabled source can provide again (such as locally published
+ * packages) are never evicted.
+ */
+
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { parseDuration } from "../utils/duration.ts";
+import fs from "../utils/fs.ts";
+import logger from "../utils/logger.ts";
+import { parseSize } from "../utils/size.ts";
+import { matchGlob } from "./dependency-resolver.ts";
+import type IndexManager from "./index-manager.ts";
+import type PackageStore from "./package-store.ts";
+import { compareVersions } from "./semver.ts";
+import type { CachePolicy, GcReason, GcRemoval, GcReport, MirrorPattern } from "./types.ts";
+import { formatPackageVersionId, parseMirrorPattern } from "./types.ts";
+
+/** Options for a gc run */
+export interface GcOptions {
+  /** Report what would be removed without deleting anything */
+  dryRun?: boolean;
+  /** Mirror patterns used by `prune_unmatched` */
+  patterns?: MirrorPattern[];
+}
+
+/** A cached version considered for eviction */
+interface CachedVersion {
+  username: string;
+  name: string;
+  version: string;
+  size: number;
+  lastUsed: Date;
+  /** Whether an enabled source can provide the archive again */
+  evictable: boolean;
+}
+
+export class CacheGc {
+  private indexManager: IndexManager;
+  private packageStore: PackageStore;
+
+  constructor(indexManager: IndexManager, packageStore: PackageStore) {
+    this.indexManager = indexManager;
+    this.packageStore = packageStore;
+  }
+
+  /** Apply retention policies to the package cache */
+  async run(policy: CachePolicy, options: GcOptions = {}): Promise<GcReport> {
+    const cached = await this.collect();
+    const kept = new Set(cached);
+    const removed: GcRemoval[] = [];
+    const protectedVersions = new Set<CachedVersion>();
+
+    const evict = (entry: CachedVersion, reason: GcReason): boolean => {
+      if (!kept.has(entry)) return false;
+      if (!entry.evictable) {
+        protectedVersions.add(entry);
+        return false;
+      }
+      kept.delete(entry);
+      removed.push({
+        name: `${entry.username}/${entry.name}`,
+        version: entry.version,
+        size: entry.size,
+        reason,
+      });
+      return true;
+    };
+
+    if (policy.prune_unmatched) {
+      const globs = (options.patterns ?? []).map(
+        (p) => parseMirrorPattern(typeof p === "string" ? p : p.pattern).glob,
+      );
+      if (globs.length === 0) {
+        logger.warn("mirror.packages is empty; skipping prune_unmatched");
+      } else {
+        for (const entry of cached) {
+          const name = `${entry.username}/${entry.name}`;
+          if (!globs.some((glob) => matchGlob(name, glob))) {
+            evict(entry, "unmatched");
+          }
+        }
+      }
+    }
+
+    if (policy.keep_versions !== undefined) {
+      const byPackage = new Map<string, CachedVersion[]>();
+      for (const entry of kept) {
+        const name = `${entry.username}/${entry.name}`;
+        byPackage.set(name, [...(byPackage.get(name) ?? []), entry]);
+      }
+      for (const versions of byPackage.values()) {
+        versions.sort((a, b) => compareVersions(b.version, a.version));
+        for (const entry of versions.slice(policy.keep_versions)) {
+          evict(entry, "old_version");
+        }
+      }
+    }
+
+    if (policy.max_age) {
+      const cutoff = Date.now() - parseDuration(policy.max_age);
+      for (const entry of Array.from(kept)) {
+        if (entry.lastUsed.getTime() < cutoff) {
+          evict(entry, "expired");
+        }
+      }
+    }
+
+    if (policy.max_size) {
+      const limit = parseSize(policy.max_size);
+      let total = sumSizes(kept);
+
+      // Least recently used first
+      const candidates = Array.from(kept).sort(
+        (a, b) => a.lastUsed.getTime() - b.lastUsed.getTime(),
+      );
+      for (const entry of candidates) {
+        if (total <= limit) break;
+        if (evict(entry, "max_size")) {
+          total -= entry.size;
+        }
+      }
+      if (total > limit) {
+        logger.warn("Cache is still over max_size (only non-evictable versions remain)");
+      }
+    }
+
+    if (!options.dryRun) {
+      for (const removal of removed) {
+        const [username, name] = removal.name.split("/");
+        await this.packageStore.removePackage(username, name, removal.version);
+        await removeIfEmpty(join(this.packageStore.path, username, name));
+      }
+      await this.packageStore.access.flush();
+    }
+
+    const sizeBefore = sumSizes(cached);
+    const freed = removed.reduce((total, r) => total + r.size, 0);
+    return {
+      dry_run: options.dryRun ?? false,
+      removed,
+      freed,
+      size_before: sizeBefore,
+      size_after: sizeBefore - freed,
+      protected: protectedVersions.size,
+    };
+  }
+
+  /** Collect cached versions with their size, last use and evictability */
+  private async collect(): Promise<CachedVersion[]> {
+    const result: CachedVersion[] = [];
+
+    for (const pkg of await this.packageStore.listCached()) {
+      const path = this.packageStore.getPackagePath(pkg.username, pkg.name, pkg.version);
+      const stats = await stat(path);
+      const lastAccess = await this.packageStore.access.lastAccess(formatPackageVersionId(pkg));
+      const source = await this.indexManager.findVersionInSources(
+        pkg.username,
+        pkg.name,
+        pkg.version,
+      );
+
+      result.push({
+        ...pkg,
+        size: stats.size,
+        // Versions never served count from when they were downloaded
+        lastUsed: lastAccess ?? stats.mtime,
+        evictable: source !== null,
+      });
+    }
+
+    return result;
+  }
+}
+
+/** Total size of cached versions */
+function sumSizes(entries: Iterable<CachedVersion>): number {
+  let total = 0;
+  for (const entry of entries) {
+    total += entry.size;
+  }
+  return total;
+}
+
+/** Remove a package directory once its last version is gone */
+async function removeIfEmpty(dir: string): Promise<void> {
+  if (fs.isDirectory(dir) && (await fs.listDir(dir)).length === 0) {
+    await fs.remove(dir);
+  }
+}
+
+export default CacheGc;
@@ -0,0 +1,151 @@
+/**
+ * Package cache verification
+ *
+ * Audits cached archives against the index checksums and optionally repairs
+ * corrupt or missing archives by downloading them again. Only archives the
+ * registry is expected to hold count as missing: versions that were served
+ * before, and versions no source can provide again. Upstream versions that
+ * were never mirrored are not missing.
+ */
+
+import { rename } from "node:fs/promises";
+import crypto from "../utils/crypto.ts";
+import fs from "../utils/fs.ts";
+import logger from "../utils/logger.ts";
+import type IndexManager from "./index-manager.ts";
+import type PackageStore from "./package-store.ts";
+import type { PackageVersion, VerifyIssue, VerifyReport } from "./types.ts";
+import { formatPackageVersionId, parsePackageId } from "./types.ts";
+
+/** Options for a verification run */
+export interface VerifyOptions {
+  /** Re-download mismatched and missing archives */
+  repair?: boolean;
+}
+
+export class CacheVerifier {
+  private indexManager: IndexManager;
+  private packageStore: PackageStore;
+
+  constructor(indexManager: IndexManager, packageStore: PackageStore) {
+    this.indexManager = indexManager;
+    this.packageStore = packageStore;
+  }
+
+  /** Verify every cached archive and every served index entry */
+  async verify(options: VerifyOptions = {}): Promise<VerifyReport> {
+    const report: VerifyReport = { checked: 0, ok: 0, issues: [] };
+    const cached = await this.packageStore.listCached();
+    const cachedIds = new Set(cached.map((c) => formatPackageVersionId(c)));
+
+    // Check cached archives against the index checksums
+    for (const pkg of cached) {
+      report.checked++;
+      const name = `${pkg.username}/${pkg.name}`;
+      const entry = await this.findEntry(pkg.username, pkg.name, pkg.version);
+
+      if (!entry) {
+        report.issues.push({ kind: "orphan", name, version: pkg.version });
+        continue;
+      }
+
+      const path = this.packageStore.getPackagePath(pkg.username, pkg.name, pkg.version);
+      const actual = await crypto.sha256File(path);
+      if (actual === entry.checksum.toLowerCase()) {
+        report.ok++;
+        continue;
+      }
+
+      const issue: VerifyIssue = {
+        kind: "mismatch",
+        name,
+        version: pkg.version,
+        expected: entry.checksum,
+        actual,
+      };
+      if (options.repair) {
+        // Keep the archive aside until a good copy arrives: it may be the only one
+        const aside = `${path}.corrupt`;
+        await rename(path, aside);
+        await this.repair(issue);
+        if (issue.repaired) {
+          await fs.remove(aside);
+        } else {
+          await rename(aside, path);
+        }
+      }
+      report.issues.push(issue);
+    }
+
+    // Check that every expected archive of the served index is cached
+    for (const name of await this.indexManager.listPackages()) {
+      const pkgId = parsePackageId(name);
+      if (!pkgId) continue;
+
+      const metadata = await this.indexManager.getPackage(pkgId.username, pkgId.name);
+      for (const version of metadata?.versions ?? []) {
+        const id = formatPackageVersionId({ ...pkgId, version: version.version });
+        if (cachedIds.has(id) || !(await this.isExpected(id, pkgId, version.version))) continue;
+
+        const issue: VerifyIssue = {
+          kind: "missing",
+          name,
+          version: version.version,
+          expected: version.checksum,
+        };
+        if (options.repair) {
+          await this.repair(issue);
+        }
+        report.issues.push(issue);
+      }
+    }
+
+    return report;
+  }
+
+  /** Find the index entry for a cached version (served index first, then sources) */
+  private async findEntry(
+    username: string,
+    name: string,
+    version: string,
+  ): Promise<PackageVersion | null> {
+    const metadata = await this.indexManager.getPackage(username, name);
+    const entry = metadata?.versions.find((v) => v.version === version);
+    if (entry) return entry;
+
+    const found = await this.indexManager.findVersionInSources(username, name, version);
+    return found?.version ?? null;
+  }
+
+  /** Check whether an archive should be cached: it was served before or only exists here */
+  private async isExpected(
+    id: string,
+    pkgId: { username: string; name: string },
+    version: string,
+  ): Promise<boolean> {
+    if (await this.packageStore.access.lastAccess(id)) return true;
+    return !(await this.indexManager.findVersionInSources(pkgId.username, pkgId.name, version));
+  }
+
+  /** Download an archive again, recording the outcome on the issue */
+  private async repair(issue: VerifyIssue): Promise<void> {
+    const pkgId = parsePackageId(issue.name);
+    if (!pkgId) return;
+
+    try {
+      await this.packageStore.downloadPackageWithFallback(
+        pkgId.username,
+        pkgId.name,
+        issue.version,
+        issue.expected,
+      );
+      issue.repaired = true;
+    } catch (err) {
+      logger.debug(`Failed to repair ${issue.name}@${issue.version}: ${err}`);
+      issue.repaired = false;
+      issue.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+}
+
+export default CacheVerifier;
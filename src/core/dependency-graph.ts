@@ -0,0 +1,142 @@
+/**
+ * Dependency graph export
+ *
+ * Turns a dependency resolution into a package-level graph and renders it as
+ * Graphviz DOT, Mermaid or JSON. Nodes are marked as matched by the patterns,
+ * pulled in transitively, or skipped (not matching any pattern), and whether
+ * their archives are already cached.
+ */
+
+import { sortVersions } from "./semver.ts";
+import type { DependencyGraph, DependencyGraphNode, DependencyResolution } from "./types.ts";
+
+/** Supported output formats */
+export type GraphFormat = "dot" | "json" | "mermaid";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "json", "mermaid"];
+
+/** DOT node attributes for each node kind */
+const DOT_STYLES: Record<DependencyGraphNode["kind"], string> = {
+  matched: 'style=filled, fillcolor="#cfe2ff"',
+  transitive: 'style=filled, fillcolor="#ffffff"',
+  skipped: 'style="filled,dashed", fillcolor="#eeeeee", fontcolor="#666666"',
+};
+
+/** Mermaid class definitions for each node kind */
+const MERMAID_STYLES: Record<DependencyGraphNode["kind"], string> = {
+  matched: "fill:#cfe2ff,stroke:#0d6efd",
+  transitive: "fill:#ffffff,stroke:#333333",
+  skipped: "fill:#eeeeee,stroke:#999999,stroke-dasharray:4 2,color:#666666",
+};
+
+/** Build a package-level graph from a resolution */
+export function buildDependencyGraph(resolution: DependencyResolution): DependencyGraph {
+  const nodes: DependencyGraphNode[] = [];
+
+  for (const name of resolution.packages) {
+    nodes.push({
+      name,
+      kind: resolution.matched.has(name) ? "matched" : "transitive",
+      cached: resolution.cached.has(name),
+      versions: sortVersions(Array.from(resolution.versions.get(name) ?? [])),
+    });
+  }
+  for (const name of resolution.skipped.keys()) {
+    nodes.push({ name, kind: "skipped", cached: resolution.cached.has(name), versions: [] });
+  }
+  nodes.sort((a, b) => a.name.localeCompare(b.name));
+
+  const edges = new Map<string, { from: string; to: string; requirements: string[] }>();
+  for (const edge of resolution.edges) {
+    const key = `${edge.from}\0${edge.to}`;
+    const merged = edges.get(key) ?? { from: edge.from, to: edge.to, requirements: [] };
+    if (!merged.requirements.includes(edge.requirement)) {
+      merged.requirements.push(edge.requirement);
+    }
+    edges.set(key, merged);
+  }
+
+  return {
+    nodes,
+    edges: Array.from(edges.values()).sort(
+      (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to),
+    ),
+  };
+}
+
+/** Render a graph in the given format */
+export function formatGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return formatDot(graph);
+    case "mermaid":
+      return formatMermaid(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+/** Render a graph as Graphviz DOT (cached packages get a double border) */
+export function formatDot(graph: DependencyGraph): string {
+  const lines = [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    '  node [shape=box, fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const cached = node.cached ? ", peripheries=2" : "";
+    lines.push(
+      `  ${dotString(node.name)} [label=${dotString(nodeLabel(node))}, ${DOT_STYLES[node.kind]}${cached}];`,
+    );
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edge.requirements.join(" | "))}];`,
+    );
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/** Render a graph as a Mermaid flowchart */
+export function formatMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.name, `n${i}`]));
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const label = node.cached ? `${nodeLabel(node)} (cached)` : nodeLabel(node);
+    lines.push(`  ${ids.get(node.name)}["${mermaidString(label)}"]:::${node.kind}`);
+  }
+  for (const edge of graph.edges) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    if (!from || !to) continue;
+    lines.push(`  ${from} -->|"${mermaidString(edge.requirements.join(" | "))}"| ${to}`);
+  }
+  for (const [kind, style] of Object.entries(MERMAID_STYLES)) {
+    lines.push(`  classDef ${kind} ${style}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Label a node with its selected versions */
+function nodeLabel(node: DependencyGraphNode): string {
+  if (node.versions.length === 0) return node.name;
+  if (node.versions.length === 1) return `${node.name}@${node.versions[0]}`;
+  return `${node.name} (${node.versions.length} versions)`;
+}
+
+/** Quote a string for DOT */
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/** Escape a string for a quoted Mermaid label */
+function mermaidString(value: string): string {
+  return value.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+export default { buildDependencyGraph, formatGraph, formatDot, formatMermaid, GRAPH_FORMATS };
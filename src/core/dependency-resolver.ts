@@ -1,14 +1,31 @@
 /**
  * Dependency resolver for package mirroring
  *
- * Handles glob pattern matching and transitive dependency resolution.
+ * Handles glob pattern matching, version filters, transitive dependency resolution,
+ * project dependency resolution and reverse dependency lookups.
  */
 
 import logger from "../utils/logger.ts";
 import type IndexManager from "./index-manager.ts";
 import type PackageStore from "./package-store.ts";
-import type { DependencyResolution, MirrorOptions, PackageMetadata } from "./types.ts";
-import { parsePackageId } from "./types.ts";
+import {
+  compareVersions,
+  filterSatisfying,
+  isPrerelease,
+  isValidRange,
+  satisfies,
+  sortVersions,
+} from "./semver.ts";
+import type {
+  DependencyResolution,
+  MirrorOptions,
+  PackageMetadata,
+  PackageVersion,
+  ProjectDependency,
+  ReverseDependency,
+  VersionFilter,
+} from "./types.ts";
+import { parseMirrorPattern, parsePackageId } from "./types.ts";
 
 export class DependencyResolver {
   private indexManager: IndexManager;
@@ -20,119 +37,359 @@ export class DependencyResolver {
   }
 
   /**
-   * Resolve packages to mirror based on patterns and options
+   * Resolve packages and versions to mirror based on patterns and options
    */
   async resolve(options: MirrorOptions, sourceName?: string): Promise<DependencyResolution> {
     const result: DependencyResolution = {
       packages: new Set(),
+      matched: new Set(),
+      edges: [],
+      versions: new Map(),
       skipped: new Map(),
       cached: new Set(),
     };
 
-    // Get all packages matching patterns
-    const matchedPackages = await this.matchPatterns(options.patterns, options.full, sourceName);
+    const metadataCache = new Map<string, PackageMetadata | null>();
+    const loadMetadata = async (pkgName: string): Promise<PackageMetadata | null> => {
+      if (!metadataCache.has(pkgName)) {
+        metadataCache.set(pkgName, await this.loadMetadata(pkgName, sourceName));
+      }
+      return metadataCache.get(pkgName) ?? null;
+    };
 
-    for (const pkgName of matchedPackages) {
+    // Get all packages matching patterns and select their versions through the filters
+    const rules: MirrorRule[] = options.full
+      ? [{ glob: "*", filter: options.filter ?? {} }]
+      : normalizeRules(options);
+    const matchedPackages = await this.matchPatterns(rules, options.full, sourceName);
+    const pending: [string, string][] = [];
+
+    for (const [pkgName, pkgRules] of matchedPackages) {
       result.packages.add(pkgName);
+      result.matched.add(pkgName);
+      const metadata = await loadMetadata(pkgName);
+      for (const version of selectVersions(metadata?.versions ?? [], pkgRules)) {
+        if (addVersion(result, pkgName, version)) {
+          pending.push([pkgName, version]);
+        }
+      }
     }
 
     // If not strict mode, resolve transitive dependencies
     if (!options.strict) {
-      await this.resolveTransitiveDeps(result, options.patterns, sourceName);
+      const globs = rules.map((r) => r.glob);
+      await this.resolveTransitiveDeps(result, pending, globs, loadMetadata);
     }
 
-    // Check which packages are already cached
-    for (const pkgName of result.packages) {
-      if (await this.isPackageCached(pkgName, sourceName)) {
-        result.cached.add(pkgName);
+    await this.markCached(result, sourceName);
+    return result;
+  }
+
+  /**
+   * Resolve the exact versions a project builds with, the way `moon` does:
+   * minimal version selection. Each requirement selects the lowest version
+   * satisfying it, the dependencies of every selected version are walked,
+   * and the highest version selected for each package wins.
+   */
+  async resolveProject(
+    deps: ProjectDependency[],
+    sourceName?: string,
+  ): Promise<DependencyResolution> {
+    const result: DependencyResolution = {
+      packages: new Set(),
+      matched: new Set(),
+      edges: [],
+      versions: new Map(),
+      skipped: new Map(),
+      cached: new Set(),
+    };
+
+    const metadataCache = new Map<string, PackageMetadata | null>();
+    const loadMetadata = async (pkgName: string): Promise<PackageMetadata | null> => {
+      if (!metadataCache.has(pkgName)) {
+        metadataCache.set(pkgName, await this.loadMetadata(pkgName, sourceName));
       }
+      return metadataCache.get(pkgName) ?? null;
+    };
+
+    // Every (package, minimal version) reachable from the project
+    const reachable = new Map<string, Set<string>>();
+    const edgeKeys = new Set<string>();
+    const pending: [string, string][] = [];
+
+    const addRequirement = async (from: string, depName: string, requirement: string) => {
+      const edgeKey = `${from}\0${depName}\0${requirement}`;
+      if (!edgeKeys.has(edgeKey)) {
+        edgeKeys.add(edgeKey);
+        result.edges.push({ from, to: depName, requirement });
+      }
+      result.packages.add(depName);
+
+      const metadata = await loadMetadata(depName);
+      if (!metadata) return;
+
+      const version = minimalVersion(metadata.versions, requirement);
+      if (!version) {
+        logger.warn(`No version of ${depName} satisfies '${requirement}' (required by ${from})`);
+        return;
+      }
+
+      const versions = reachable.get(depName) ?? new Set<string>();
+      if (versions.has(version)) return;
+      versions.add(version);
+      reachable.set(depName, versions);
+      pending.push([depName, version]);
+    };
+
+    for (const dep of deps) {
+      result.matched.add(dep.name);
+      await addRequirement(dep.from, dep.name, dep.requirement);
     }
 
+    for (let next = pending.pop(); next; next = pending.pop()) {
+      const [pkgName, version] = next;
+      const metadata = await loadMetadata(pkgName);
+      const entry = metadata?.versions.find((v) => v.version === version);
+      for (const [depName, requirement] of Object.entries(entry?.deps ?? {})) {
+        await addRequirement(pkgName, depName, String(requirement));
+      }
+    }
+
+    for (const [pkgName, versions] of reachable) {
+      const selected = sortVersions(Array.from(versions)).at(-1);
+      if (selected) {
+        addVersion(result, pkgName, selected);
+      }
+    }
+
+    await this.markCached(result, sourceName);
     return result;
   }
 
-  /** Match packages against glob patterns */
+  /** Mark packages whose selected versions (or, when skipped, any version) are cached */
+  private async markCached(result: DependencyResolution, sourceName?: string): Promise<void> {
+    for (const pkgName of result.packages) {
+      const versions = result.versions.get(pkgName) ?? new Set();
+      if (versions.size > 0 && this.areVersionsCached(pkgName, versions)) {
+        result.cached.add(pkgName);
+      }
+    }
+    for (const depName of result.skipped.keys()) {
+      if (await this.isPackageCached(depName, sourceName)) {
+        result.cached.add(depName);
+      }
+    }
+  }
+
+  /** Match packages against rule globs, returning the rules matching each package */
   private async matchPatterns(
-    patterns: string[],
+    rules: MirrorRule[],
     full: boolean,
     sourceName?: string,
-  ): Promise<string[]> {
+  ): Promise<Map<string, MirrorRule[]>> {
+    const matched = new Map<string, MirrorRule[]>();
+
     if (full) {
-      return sourceName
-        ? this.indexManager.listPackagesFromSource(sourceName)
-        : this.indexManager.listPackages();
+      const packages = sourceName
+        ? await this.indexManager.listPackagesFromSource(sourceName)
+        : await this.indexManager.listPackages();
+      for (const pkg of packages) {
+        matched.set(pkg, rules);
+      }
+      return matched;
     }
 
-    const matched = new Set<string>();
-
-    for (const pattern of patterns) {
+    for (const rule of rules) {
       const packages = sourceName
-        ? await this.indexManager.listPackagesMatchingFromSource(pattern, sourceName)
-        : await this.indexManager.listPackagesMatching(pattern);
+        ? await this.indexManager.listPackagesMatchingFromSource(rule.glob, sourceName)
+        : await this.indexManager.listPackagesMatching(rule.glob);
       for (const pkg of packages) {
-        matched.add(pkg);
+        matched.set(pkg, [...(matched.get(pkg) ?? []), rule]);
       }
     }
 
-    return Array.from(matched);
+    return matched;
   }
 
-  /** Resolve transitive dependencies for matched packages */
+  /**
+   * Resolve transitive dependencies of the selected versions.
+   * Every version that satisfies a requirement can be selected by a client,
+   * so all of them are walked, not just the latest.
+   */
   private async resolveTransitiveDeps(
     result: DependencyResolution,
+    pending: [string, string][],
     originalPatterns: string[],
-    sourceName?: string,
+    loadMetadata: (pkgName: string) => Promise<PackageMetadata | null>,
   ): Promise<void> {
-    const toProcess = new Set(result.packages);
-    const processed = new Set<string>();
+    const edgeKeys = new Set<string>();
+
+    for (let next = pending.pop(); next; next = pending.pop()) {
+      const [pkgName, version] = next;
+      const metadata = await loadMetadata(pkgName);
+      const entry = metadata?.versions.find((v) => v.version === version);
+      if (!entry) continue;
+
+      for (const [depName, requirement] of Object.entries(entry.deps || {})) {
+        const edgeKey = `${pkgName}\0${depName}\0${requirement}`;
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey);
+          result.edges.push({ from: pkgName, to: depName, requirement: String(requirement) });
+        }
 
-    while (toProcess.size > 0) {
-      const pkgName = toProcess.values().next().value as string;
-      toProcess.delete(pkgName);
+        // Check if dep is already included or matches original patterns
+        const included =
+          result.packages.has(depName) || originalPatterns.some((p) => matchGlob(depName, p));
 
-      if (processed.has(pkgName)) continue;
-      processed.add(pkgName);
+        if (!included) {
+          // Track skipped dependency
+          const requiredBy = result.skipped.get(depName) ?? [];
+          if (!requiredBy.includes(pkgName)) {
+            requiredBy.push(pkgName);
+          }
+          result.skipped.set(depName, requiredBy);
+          continue;
+        }
 
-      const pkgId = parsePackageId(pkgName);
-      if (!pkgId) continue;
+        result.packages.add(depName);
+        const depMetadata = await loadMetadata(depName);
+        if (!depMetadata) continue;
+
+        const candidates = depMetadata.versions.filter((v) => !v.yanked).map((v) => v.version);
+        const selected =
+          typeof requirement === "string" && isValidRange(requirement)
+            ? filterSatisfying(candidates, requirement)
+            : candidates;
+        if (selected.length === 0) {
+          logger.debug(
+            `No version of ${depName} satisfies '${requirement}' (${pkgName}@${version})`,
+          );
+        }
 
-      const metadata = sourceName
-        ? await this.indexManager.getPackageFromSource(pkgId.username, pkgId.name, sourceName)
-        : await this.indexManager.getPackage(pkgId.username, pkgId.name);
-      if (!metadata) continue;
+        for (const depVersion of selected) {
+          if (addVersion(result, depName, depVersion)) {
+            pending.push([depName, depVersion]);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Build the reverse dependency index from the served index and the given
+   * source indexes: for each package, the package versions depending on it.
+   * A version in the served index takes precedence over the same version in a
+   * source index.
+   */
+  async buildReverseIndex(sourceNames: string[]): Promise<Map<string, ReverseDependency[]>> {
+    const reverse = new Map<string, ReverseDependency[]>();
+    const seen = new Set<string>();
 
-      // Get deps from latest non-yanked version
-      const latestVersion = this.getLatestVersion(metadata);
-      if (!latestVersion) continue;
+    for (const sourceName of [undefined, ...sourceNames]) {
+      const packages = sourceName
+        ? await this.indexManager.listPackagesFromSource(sourceName)
+        : await this.indexManager.listPackages();
+
+      for (const pkgName of packages) {
+        const metadata = await this.loadMetadata(pkgName, sourceName);
+        for (const entry of metadata?.versions ?? []) {
+          const id = `${pkgName}@${entry.version}`;
+          if (seen.has(id)) continue;
+          seen.add(id);
+
+          for (const [depName, requirement] of Object.entries(entry.deps || {})) {
+            const dependents = reverse.get(depName) ?? [];
+            dependents.push({
+              name: pkgName,
+              version: entry.version,
+              requirement: String(requirement),
+              source: sourceName ?? "index",
+              depth: 1,
+            });
+            reverse.set(depName, dependents);
+          }
+        }
+      }
+    }
 
-      for (const depName of Object.keys(latestVersion.deps || {})) {
-        if (result.packages.has(depName)) continue;
+    return reverse;
+  }
 
-        // Check if dep matches original patterns
-        const matchesPattern = originalPatterns.some((p) => matchGlob(depName, p));
+  /**
+   * Find the package versions depending on a package, walking the reverse
+   * dependency graph breadth-first when `transitive` is set. With `version`,
+   * direct dependents are limited to those whose requirement it satisfies.
+   */
+  async findDependents(
+    pkgName: string,
+    sourceNames: string[],
+    options: { transitive?: boolean; version?: string } = {},
+  ): Promise<ReverseDependency[]> {
+    const reverse = await this.buildReverseIndex(sourceNames);
+    const result: ReverseDependency[] = [];
+    const found = new Set<string>();
+    const expanded = new Set([pkgName]);
+    const queue: { target: string; depth: number; version?: string }[] = [
+      { target: pkgName, depth: 1, version: options.version },
+    ];
+
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      for (const dependent of reverse.get(next.target) ?? []) {
+        if (dependent.name === pkgName) continue;
+        if (
+          next.version !== undefined &&
+          isValidRange(dependent.requirement) &&
+          !satisfies(next.version, dependent.requirement)
+        ) {
+          continue;
+        }
 
-        if (matchesPattern) {
-          result.packages.add(depName);
-          toProcess.add(depName);
-        } else {
-          // Track skipped dependency
-          if (!result.skipped.has(depName)) {
-            result.skipped.set(depName, []);
-          }
-          result.skipped.get(depName)?.push(pkgName);
+        const id = `${dependent.name}@${dependent.version}`;
+        if (found.has(id)) continue;
+        found.add(id);
+        result.push({
+          ...dependent,
+          depth: next.depth,
+          via: next.depth > 1 ? next.target : undefined,
+        });
+
+        if (options.transitive && !expanded.has(dependent.name)) {
+          expanded.add(dependent.name);
+          queue.push({ target: dependent.name, depth: next.depth + 1 });
         }
       }
     }
+
+    return result.sort(
+      (a, b) =>
+        a.depth - b.depth || a.name.localeCompare(b.name) || compareVersions(a.version, b.version),
+    );
+  }
+
+  /** Load package metadata from a source or the local index */
+  private async loadMetadata(
+    pkgName: string,
+    sourceName?: string,
+  ): Promise<PackageMetadata | null> {
+    const pkgId = parsePackageId(pkgName);
+    if (!pkgId) return null;
+
+    return sourceName
+      ? this.indexManager.getPackageFromSource(pkgId.username, pkgId.name, sourceName)
+      : this.indexManager.getPackage(pkgId.username, pkgId.name);
   }
 
-  /** Get the latest non-yanked version */
-  private getLatestVersion(metadata: PackageMetadata) {
-    const versions = metadata.versions.filter((v) => !v.yanked);
-    if (versions.length === 0) return null;
+  /** Check if all given versions of a package are cached */
+  private areVersionsCached(pkgName: string, versions: Set<string>): boolean {
+    const pkgId = parsePackageId(pkgName);
+    if (!pkgId) return false;
 
-    // Sort by version (semver-like comparison)
-    versions.sort((a, b) => compareVersions(b.version, a.version));
-    return versions[0];
+    for (const version of versions) {
+      if (!this.packageStore.hasPackage(pkgId.username, pkgId.name, version)) {
+        return false;
+      }
+    }
+    return true;
   }
 
   /** Check if any version of a package is cached */
@@ -140,9 +397,7 @@ export class DependencyResolver {
     const pkgId = parsePackageId(pkgName);
     if (!pkgId) return false;
 
-    const metadata = sourceName
-      ? await this.indexManager.getPackageFromSource(pkgId.username, pkgId.name, sourceName)
-      : await this.indexManager.getPackage(pkgId.username, pkgId.name);
+    const metadata = await this.loadMetadata(pkgName, sourceName);
     if (!metadata) return false;
 
     // Check if any version is cached
@@ -171,7 +426,7 @@ export class DependencyResolver {
 }
 
 /** Simple glob pattern matching */
-function matchGlob(str: string, pattern: string): boolean {
+export function matchGlob(str: string, pattern: string): boolean {
   const regexPattern = pattern
     .replace(/[.+^${}()|[\]\\]/g, "\\$&")
     .replace(/\*/g, ".*")
@@ -181,21 +436,80 @@ function matchGlob(str: string, pattern: string): boolean {
   return regex.test(str);
 }
 
-/** Compare two version strings (simple semver-like comparison) */
-function compareVersions(a: string, b: string): number {
-  const partsA = a.split(".").map((p) => Number.parseInt(p, 10) || 0);
-  const partsB = b.split(".").map((p) => Number.parseInt(p, 10) || 0);
+/** A mirror pattern normalized for matching */
+interface MirrorRule {
+  glob: string;
+  requirement?: string;
+  filter: VersionFilter;
+}
+
+/** Normalize mirror patterns, applying the default filters where a rule sets none */
+function normalizeRules(options: MirrorOptions): MirrorRule[] {
+  const defaults = options.filter ?? {};
+
+  return options.patterns.map((pattern) => {
+    const { pattern: text, ...own } = typeof pattern === "string" ? { pattern } : pattern;
+    const { glob, requirement } = parseMirrorPattern(text);
+    if (requirement !== undefined && !isValidRange(requirement)) {
+      throw new Error(`Invalid version requirement in mirror pattern '${text}'`);
+    }
+    return { glob, requirement, filter: { ...defaults, ...own } };
+  });
+}
+
+/** Select the versions of a package matched by any of the rules */
+function selectVersions(versions: PackageVersion[], rules: MirrorRule[]): Set<string> {
+  const selected = new Set<string>();
+
+  for (const rule of rules) {
+    let candidates = versions.filter((v) => !v.yanked);
 
-  const maxLen = Math.max(partsA.length, partsB.length);
-  for (let i = 0; i < maxLen; i++) {
-    const numA = partsA[i] ?? 0;
-    const numB = partsB[i] ?? 0;
-    if (numA !== numB) {
-      return numA - numB;
+    if (rule.requirement !== undefined) {
+      const requirement = rule.requirement;
+      candidates = candidates.filter((v) => satisfies(v.version, requirement));
+    }
+    if (rule.filter.skip_prerelease) {
+      candidates = candidates.filter((v) => !isPrerelease(v.version));
+    }
+    if (rule.filter.since) {
+      // Versions without a recorded publish time are kept
+      const cutoff = Date.parse(rule.filter.since);
+      candidates = candidates.filter((v) => !v.created_at || Date.parse(v.created_at) >= cutoff);
+    }
+    if (rule.filter.latest !== undefined) {
+      candidates = candidates
+        .sort((a, b) => compareVersions(b.version, a.version))
+        .slice(0, rule.filter.latest);
+    }
+
+    for (const version of candidates) {
+      selected.add(version.version);
     }
   }
 
-  return 0;
+  return selected;
+}
+
+/**
+ * Get the lowest non-yanked version satisfying a requirement. An exact
+ * version that is not valid semver only matches itself.
+ */
+function minimalVersion(versions: PackageVersion[], requirement: string): string | null {
+  const candidates = versions.filter((v) => !v.yanked).map((v) => v.version);
+  if (!isValidRange(requirement)) {
+    return candidates.includes(requirement) ? requirement : null;
+  }
+  return filterSatisfying(candidates, requirement)[0] ?? null;
+}
+
+/** Add a version to the resolution (returns false if already selected) */
+function addVersion(result: DependencyResolution, pkgName: string, version: string): boolean {
+  const versions = result.versions.get(pkgName) ?? new Set<string>();
+  if (versions.has(version)) return false;
+
+  versions.add(version);
+  result.versions.set(pkgName, versions);
+  return true;
 }
 
 export default DependencyResolver;
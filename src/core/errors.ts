@@ -0,0 +1,36 @@
+/**
+ * Error types for registry operations
+ */
+
+/** Error codes that callers can map to user-facing responses */
+export type RegistryErrorCode = "invalid" | "not_found" | "conflict" | "forbidden";
+
+/** Error raised by registry operations */
+export class RegistryError extends Error {
+  constructor(
+    message: string,
+    public code: RegistryErrorCode,
+  ) {
+    super(message);
+    this.name = "RegistryError";
+  }
+}
+
+/** Error raised when downloading a package from a source fails */
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status of the failed response (undefined for network errors and timeouts) */
+    public status?: number,
+  ) {
+    super(message);
+    this.name = "DownloadError";
+  }
+
+  /** Whether retrying may succeed (server errors, network errors and timeouts) */
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+export default RegistryError;
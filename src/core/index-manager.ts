@@ -9,12 +9,41 @@ import { existsSync } from "node:fs";
 import { join } from "node:path";
 import { DATA_DIRS } from "../config/defaults.ts";
 import fs from "../utils/fs.ts";
-import git from "../utils/git.ts";
+import git, { type GitCommitInfo } from "../utils/git.ts";
 import logger from "../utils/logger.ts";
+import { RegistryError } from "./errors.ts";
 import type { SourceManager } from "./source-manager.ts";
-import type { MirrorSource, PackageEntry, PackageMetadata, RegistryConfig } from "./types.ts";
+import type {
+  IndexDelta,
+  MirrorSource,
+  PackageEntry,
+  PackageMetadata,
+  PackageVersion,
+  RegistryConfig,
+} from "./types.ts";
 import { parsePackageId } from "./types.ts";
 
+/** File in an HTTP source index that stores response validators */
+const HTTP_CACHE_FILE = ".http-cache.json";
+
+/** File in an HTTP source index that stores the last package listing */
+const HTTP_LISTING_FILE = ".packages.json";
+
+/** Path of the package listing relative to an HTTP source's index URL */
+const HTTP_LISTING_KEY = "index.json";
+
+/** File in the source index directory that records the last successful sync of each source */
+const SYNC_STATE_FILE = ".sync-state.json";
+
+/** Cached response validators for HTTP index files, keyed by relative path */
+type HttpCacheState = Record<string, { etag?: string; last_modified?: string }>;
+
+/** Result of a conditional fetch */
+interface HttpFetchResult {
+  status: "modified" | "not_modified" | "not_found";
+  body: string;
+}
+
 export class IndexManager {
   private indexDir: string;
   private config: RegistryConfig;
@@ -70,6 +99,26 @@ export class IndexManager {
     } else {
       await this.syncHttpIndex(source, indexPath);
     }
+
+    const state = await this.readSyncState();
+    state[source.name] = new Date().toISOString();
+    await fs.writeJson(this.getSyncStatePath(), state);
+  }
+
+  /** Get the time each source was last synced successfully (ISO 8601, keyed by source name) */
+  async readSyncState(): Promise<Record<string, string>> {
+    const statePath = this.getSyncStatePath();
+    return existsSync(statePath) ? fs.readJson<Record<string, string>>(statePath) : {};
+  }
+
+  /** Get the latest commit of the served index */
+  async getLastCommit(): Promise<GitCommitInfo | null> {
+    return git.getLastCommit(this.indexDir);
+  }
+
+  /** Path of the sync state file (kept out of the served index by `/sources/` in .gitignore) */
+  private getSyncStatePath(): string {
+    return join(this.indexDir, "sources", SYNC_STATE_FILE);
   }
 
   /** Get source for sync operation */
@@ -125,54 +174,167 @@ export class IndexManager {
     }
   }
 
-  /** Sync an HTTP-based index (placeholder for future implementation) */
+  /**
+   * Sync an HTTP-based index
+   *
+   * Fetches the package listing from `{index_url}/index.json` and each package's
+   * JSONL from `{index_url}/{username}/{package}`, using ETag/Last-Modified
+   * validators so unchanged files are answered with 304 Not Modified.
+   */
   private async syncHttpIndex(source: MirrorSource, indexPath: string): Promise<void> {
-    // HTTP index sync would fetch package list from an API
-    // This is a placeholder for future implementation
-    logger.warn(`HTTP index sync for '${source.name}' is not yet implemented`);
     await fs.ensureDir(indexPath);
+
+    const baseUrl = source.index_url.replace(/\/+$/, "");
+    const statePath = join(indexPath, HTTP_CACHE_FILE);
+    const state: HttpCacheState = existsSync(statePath)
+      ? await fs.readJson<HttpCacheState>(statePath)
+      : {};
+
+    // Only revalidate files we still have a local copy of
+    const listingPath = join(indexPath, HTTP_LISTING_FILE);
+    if (!existsSync(listingPath)) {
+      delete state[HTTP_LISTING_KEY];
+    }
+
+    logger.info(`Fetching package listing from ${source.name} (${baseUrl})`);
+    const listing = await this.fetchConditional(
+      source,
+      `${baseUrl}/${HTTP_LISTING_KEY}`,
+      state,
+      HTTP_LISTING_KEY,
+    );
+    if (listing.status === "not_found") {
+      throw new Error(`Package listing not found at ${baseUrl}/${HTTP_LISTING_KEY}`);
+    }
+
+    let packages: string[];
+    if (listing.status === "modified") {
+      packages = parsePackageListing(listing.body);
+      await fs.writeJson(listingPath, packages);
+    } else {
+      packages = await fs.readJson<string[]>(listingPath);
+    }
+
+    let updated = 0;
+    let unchanged = 0;
+    let removed = 0;
+
+    for (const pkgName of packages) {
+      const pkgId = parsePackageId(pkgName);
+      if (!pkgId) {
+        logger.warn(`Skipping invalid package name '${pkgName}' from ${source.name}`);
+        continue;
+      }
+
+      const key = `${pkgId.username}/${pkgId.name}`;
+      const pkgPath = join(indexPath, pkgId.username, pkgId.name);
+      if (!existsSync(pkgPath)) {
+        delete state[key];
+      }
+
+      const result = await this.fetchConditional(
+        source,
+        `${baseUrl}/${encodeURIComponent(pkgId.username)}/${encodeURIComponent(pkgId.name)}`,
+        state,
+        key,
+      );
+
+      if (result.status === "modified") {
+        await fs.writeText(pkgPath, result.body.endsWith("\n") ? result.body : `${result.body}\n`);
+        updated++;
+      } else if (result.status === "not_modified") {
+        unchanged++;
+      } else {
+        await fs.remove(pkgPath);
+        delete state[key];
+        removed++;
+      }
+    }
+
+    // Drop packages that are no longer listed by the source
+    const listed = new Set(packages);
+    for (const pkgName of await this.listPackagesInDir(indexPath)) {
+      if (listed.has(pkgName)) continue;
+      const pkgId = parsePackageId(pkgName);
+      if (!pkgId) continue;
+      await fs.remove(join(indexPath, pkgId.username, pkgId.name));
+      delete state[pkgName];
+      removed++;
+    }
+
+    await fs.writeJson(statePath, state);
+    logger.info(
+      `Synced ${packages.length} packages from '${source.name}' (${updated} updated, ${unchanged} unchanged, ${removed} removed)`,
+    );
   }
 
-  /** Get package from a specific source's index */
-  async getPackageFromSource(
-    username: string,
-    packageName: string,
-    sourceName?: string,
-  ): Promise<PackageMetadata | null> {
+  /** Fetch a URL with conditional request headers, updating cached validators */
+  private async fetchConditional(
+    source: MirrorSource,
+    url: string,
+    state: HttpCacheState,
+    key: string,
+  ): Promise<HttpFetchResult> {
+    const options = this.sourceManager?.getFetchOptions(source) ?? {};
+    const headers = new Headers(options.headers);
+    const cached = state[key];
+    if (cached?.etag) {
+      headers.set("If-None-Match", cached.etag);
+    }
+    if (cached?.last_modified) {
+      headers.set("If-Modified-Since", cached.last_modified);
+    }
+
+    const response = await fetch(url, { ...options, headers });
+
+    if (response.status === 304) {
+      return { status: "not_modified", body: "" };
+    }
+    if (response.status === 404 || response.status === 410) {
+      return { status: "not_found", body: "" };
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const etag = response.headers.get("ETag");
+    const lastModified = response.headers.get("Last-Modified");
+    state[key] = {
+      etag: etag ?? undefined,
+      last_modified: lastModified ?? undefined,
+    };
+
+    return { status: "modified", body: await response.text() };
+  }
+
+  /** Find a package's index file in a source's index (standard or mooncakes layout) */
+  getSourcePackageFile(username: string, packageName: string, sourceName?: string): string | null {
     const indexPath = this.getSourceIndexPath(sourceName);
 
     // Try multiple path formats to support both standard and mooncakes index structure
     const possiblePaths = [
-      join(indexPath, username, packageName),                    // standard: {username}/{package}
-      join(indexPath, username, `${packageName}.index`),         // mooncakes: {username}/{package}.index
-      join(indexPath, "user", username, packageName),            // mooncakes: user/{username}/{package}
+      join(indexPath, username, packageName), // standard: {username}/{package}
+      join(indexPath, username, `${packageName}.index`), // mooncakes: {username}/{package}.index
+      join(indexPath, "user", username, packageName), // mooncakes: user/{username}/{package}
       join(indexPath, "user", username, `${packageName}.index`), // mooncakes: user/{username}/{package}.index
     ];
 
-    let pkgIndexPath: string | null = null;
-    for (const path of possiblePaths) {
-      if (existsSync(path)) {
-        pkgIndexPath = path;
-        break;
-      }
-    }
+    return possiblePaths.find((path) => existsSync(path)) ?? null;
+  }
 
+  /** Read the raw index entries of a package from a specific source's index */
+  async readSourceEntries(
+    username: string,
+    packageName: string,
+    sourceName?: string,
+  ): Promise<PackageEntry[] | null> {
+    const pkgIndexPath = this.getSourcePackageFile(username, packageName, sourceName);
     if (!pkgIndexPath) {
       return null;
     }
 
     try {
-      const entries = await fs.readJsonl<PackageEntry>(pkgIndexPath);
-      return {
-        username,
-        name: packageName,
-        versions: entries.map((e) => ({
-          version: e.version,
-          checksum: e.checksum,
-          deps: e.deps,
-          yanked: e.yanked,
-        })),
-      };
+      return await fs.readJsonl<PackageEntry>(pkgIndexPath);
     } catch (err) {
       logger.error(
         `Failed to read package index for ${username}/${packageName} from source: ${err}`,
@@ -181,6 +343,49 @@ export class IndexManager {
     }
   }
 
+  /** Get package from a specific source's index */
+  async getPackageFromSource(
+    username: string,
+    packageName: string,
+    sourceName?: string,
+  ): Promise<PackageMetadata | null> {
+    const entries = await this.readSourceEntries(username, packageName, sourceName);
+    if (!entries) {
+      return null;
+    }
+
+    return {
+      username,
+      name: packageName,
+      versions: entries.map((e) => ({
+        version: e.version,
+        checksum: e.checksum,
+        deps: e.deps,
+        yanked: e.yanked,
+        created_at: e.created_at,
+      })),
+    };
+  }
+
+  /** Find a package version in the enabled source indexes (in priority order) */
+  async findVersionInSources(
+    username: string,
+    packageName: string,
+    version: string,
+  ): Promise<{ source: string; version: PackageVersion } | null> {
+    if (!this.sourceManager) return null;
+
+    for (const source of this.sourceManager.listEnabledSources()) {
+      const metadata = await this.getPackageFromSource(username, packageName, source.name);
+      const found = metadata?.versions.find((v) => v.version === version);
+      if (found) {
+        return { source: source.name, version: found };
+      }
+    }
+
+    return null;
+  }
+
   /** List packages from a specific source's index */
   async listPackagesFromSource(sourceName?: string): Promise<string[]> {
     const indexPath = this.getSourceIndexPath(sourceName);
@@ -208,7 +413,9 @@ export class IndexManager {
     const userSubdir = join(dir, "user");
     const userSubdirExists = existsSync(userSubdir);
     const userSubdirIsDir = userSubdirExists && fs.isDirectory(userSubdir);
-    logger.debug(`listPackagesInDir: userSubdir=${userSubdir}, exists=${userSubdirExists}, isDir=${userSubdirIsDir}`);
+    logger.debug(
+      `listPackagesInDir: userSubdir=${userSubdir}, exists=${userSubdirExists}, isDir=${userSubdirIsDir}`,
+    );
 
     if (userSubdirIsDir) {
       baseDir = userSubdir;
@@ -217,7 +424,9 @@ export class IndexManager {
     logger.debug(`listPackagesInDir: baseDir=${baseDir}`);
 
     const users = await fs.listDir(baseDir);
-    logger.debug(`listPackagesInDir: found ${users.length} users: ${users.slice(0, 5).join(", ")}${users.length > 5 ? "..." : ""}`);
+    logger.debug(
+      `listPackagesInDir: found ${users.length} users: ${users.slice(0, 5).join(", ")}${users.length > 5 ? "..." : ""}`,
+    );
 
     for (const user of users) {
       if (user.startsWith(".") || user === "sources") continue;
@@ -263,6 +472,7 @@ export class IndexManager {
           checksum: e.checksum,
           deps: e.deps,
           yanked: e.yanked,
+          created_at: e.created_at,
         })),
       };
     } catch (err) {
@@ -285,6 +495,174 @@ export class IndexManager {
     logger.debug(`Wrote entry for ${entry.name}@${entry.version}`);
   }
 
+  /**
+   * Merge packages from the enabled source indexes into the served index.
+   *
+   * Each version is taken from the highest-priority source that has it.
+   * Versions only present in the served index (e.g. published locally) are
+   * kept, as are served versions whose checksum differs from the source's
+   * (a local publish of a version that also exists upstream), and versions
+   * yanked locally stay yanked. Returns the number of package files that
+   * changed.
+   */
+  async mergeFromSources(packages: string[]): Promise<number> {
+    const sources = this.sourceManager?.listEnabledSources() ?? [];
+    let changed = 0;
+
+    for (const pkgName of packages) {
+      const pkgId = parsePackageId(pkgName);
+      if (!pkgId) continue;
+
+      // Sources are in priority order, so the first source to list a version wins
+      const fromSources = new Map<string, PackageEntry>();
+      for (const source of sources) {
+        const entries = await this.readSourceEntries(pkgId.username, pkgId.name, source.name);
+        for (const entry of entries ?? []) {
+          if (!fromSources.has(entry.version)) {
+            fromSources.set(entry.version, entry);
+          }
+        }
+      }
+      if (fromSources.size === 0) continue;
+
+      const indexPath = this.getPackageIndexPath(pkgId.username, pkgId.name);
+      const existing = existsSync(indexPath) ? await fs.readJsonl<PackageEntry>(indexPath) : [];
+
+      const merged: PackageEntry[] = [];
+      for (const entry of existing) {
+        const upstream = fromSources.get(entry.version);
+        fromSources.delete(entry.version);
+        if (!upstream || upstream.checksum !== entry.checksum) {
+          merged.push(entry);
+        } else if (entry.yanked && !upstream.yanked) {
+          merged.push({ ...upstream, yanked: true });
+        } else {
+          merged.push(upstream);
+        }
+      }
+      merged.push(...fromSources.values());
+
+      const content = `${merged.map((e) => JSON.stringify(e)).join("\n")}\n`;
+      const current = existsSync(indexPath) ? await fs.readText(indexPath) : null;
+      if (content !== current) {
+        await fs.writeText(indexPath, content);
+        changed++;
+      }
+    }
+
+    logger.debug(`Merged ${packages.length} packages into served index (${changed} changed)`);
+    return changed;
+  }
+
+  /**
+   * Merge package entries into the served index, replacing existing entries
+   * for the same versions. Returns the number of package files that changed.
+   */
+  async mergeEntries(entries: PackageEntry[]): Promise<number> {
+    const byPackage = new Map<string, PackageEntry[]>();
+    for (const entry of entries) {
+      byPackage.set(entry.name, [...(byPackage.get(entry.name) ?? []), entry]);
+    }
+
+    let changed = 0;
+    for (const [pkgName, incoming] of byPackage) {
+      const pkgId = parsePackageId(pkgName);
+      if (!pkgId) {
+        throw new Error(`Invalid package name: ${pkgName}`);
+      }
+
+      const indexPath = this.getPackageIndexPath(pkgId.username, pkgId.name);
+      const current = existsSync(indexPath) ? await fs.readText(indexPath) : null;
+      const existing = current === null ? [] : await fs.readJsonl<PackageEntry>(indexPath);
+      const replacements = new Map(incoming.map((e) => [e.version, e]));
+
+      const merged = existing.map((e) => {
+        const replacement = replacements.get(e.version);
+        replacements.delete(e.version);
+        return replacement ?? e;
+      });
+      merged.push(...replacements.values());
+
+      const content = `${merged.map((e) => JSON.stringify(e)).join("\n")}\n`;
+      if (content !== current) {
+        await fs.ensureDir(join(this.indexDir, pkgId.username));
+        await fs.writeText(indexPath, content);
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Diff the served index between a revision and HEAD. Removed versions are
+   * not reported, since registries never delete published versions.
+   */
+  async diffSince(rev: string): Promise<IndexDelta> {
+    const base = await git.resolveRevision(this.indexDir, rev);
+    if (!base) {
+      throw new RegistryError(`Unknown index revision: ${rev}`, "not_found");
+    }
+
+    const delta: IndexDelta = { base, added: new Map(), updated: new Map() };
+    const add = (changes: Map<string, Set<string>>, pkgName: string, version: string) => {
+      changes.set(pkgName, (changes.get(pkgName) ?? new Set()).add(version));
+    };
+
+    for (const file of await git.diffFiles(this.indexDir, base, "HEAD")) {
+      // Package files are <username>/<package>; skip .gitignore and the like
+      const pkgId = parsePackageId(file);
+      if (!pkgId || file.startsWith(".") || file.split("/").length !== 2) continue;
+
+      const before = parseJsonlLines(await git.showFile(this.indexDir, base, file));
+      const after = parseJsonlLines(await git.showFile(this.indexDir, "HEAD", file));
+
+      for (const [version, line] of after) {
+        const previous = before.get(version);
+        if (!previous || previous.entry.checksum !== line.entry.checksum) {
+          add(delta.added, file, version);
+        } else if (previous.text !== line.text) {
+          add(delta.updated, file, version);
+        }
+      }
+    }
+
+    return delta;
+  }
+
+  /** Set or clear the yanked flag of a package version (returns false if unchanged) */
+  async setYanked(
+    username: string,
+    packageName: string,
+    version: string,
+    yanked: boolean,
+  ): Promise<boolean> {
+    const indexPath = this.getPackageIndexPath(username, packageName);
+    if (!existsSync(indexPath)) {
+      throw new RegistryError(`Package ${username}/${packageName} not found in index`, "not_found");
+    }
+
+    const entries = await fs.readJsonl<PackageEntry>(indexPath);
+    const entry = entries.find((e) => e.version === version);
+    if (!entry) {
+      throw new RegistryError(
+        `Version ${version} of ${username}/${packageName} not found in index`,
+        "not_found",
+      );
+    }
+
+    if ((entry.yanked ?? false) === yanked) {
+      return false;
+    }
+
+    // Unyanked entries drop the field entirely, matching freshly written entries
+    entry.yanked = yanked ? true : undefined;
+
+    await fs.writeJsonl(indexPath, entries);
+    logger.debug(`${yanked ? "Yanked" : "Unyanked"} ${username}/${packageName}@${version}`);
+    return true;
+  }
+
   /** List all packages in the index */
   async listPackages(): Promise<string[]> {
     const packages: string[] = [];
@@ -314,8 +692,20 @@ export class IndexManager {
     return allPackages.filter((pkg) => matchGlob(pkg, pattern));
   }
 
+  /** Keep source index clones out of the served index repository */
+  private async ensureGitignore(): Promise<void> {
+    const gitignorePath = join(this.indexDir, ".gitignore");
+    const content = existsSync(gitignorePath) ? await fs.readText(gitignorePath) : "";
+    if (content.split("\n").some((line) => line.trim() === "/sources/")) return;
+
+    const prefix = content && !content.endsWith("\n") ? `${content}\n` : content;
+    await fs.writeText(gitignorePath, `${prefix}/sources/\n`);
+  }
+
   /** Commit changes to the index */
   async commit(message: string): Promise<boolean> {
+    await this.ensureGitignore();
+
     if (!(await git.hasChanges(this.indexDir))) {
       logger.debug("No changes to commit");
       return false;
@@ -327,6 +717,9 @@ export class IndexManager {
     if (result.success) {
       logger.debug(`Committed: ${message}`);
 
+      // Dumb HTTP clients need info/refs to be current
+      await git.updateServerInfo(this.indexDir);
+
       if (this.config.git.auto_push && this.config.git.remote_url) {
         await this.push();
       }
@@ -372,6 +765,16 @@ export class IndexManager {
   }
 }
 
+/** Parse a package listing (either an array of names or `{ packages: [...] }`) */
+function parsePackageListing(body: string): string[] {
+  const parsed = JSON.parse(body) as unknown;
+  const list = Array.isArray(parsed) ? parsed : (parsed as { packages?: unknown })?.packages;
+  if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+    throw new Error("Invalid package listing: expected an array of package names");
+  }
+  return list as string[];
+}
+
 /** Simple glob pattern matching */
 function matchGlob(str: string, pattern: string): boolean {
   // Convert glob pattern to regex
@@ -384,4 +787,17 @@ function matchGlob(str: string, pattern: string): boolean {
   return regex.test(str);
 }
 
+/** Parse JSONL index content into entries (and their raw lines) keyed by version */
+function parseJsonlLines(
+  content: string | null,
+): Map<string, { entry: PackageEntry; text: string }> {
+  const lines = new Map<string, { entry: PackageEntry; text: string }>();
+  for (const text of (content ?? "").split("\n")) {
+    if (!text.trim()) continue;
+    const entry = JSON.parse(text) as PackageEntry;
+    lines.set(entry.version, { entry, text: text.trim() });
+  }
+  return lines;
+}
+
 export default IndexManager;
@@ -0,0 +1,129 @@
+/**
+ * Filtered index views
+ *
+ * With `[[acl]]` rules, each token is served its own git repository holding
+ * only the index files of the packages it may read, so `/git/index` does not
+ * expose private package names. A view lives in `index-views/<audience>` and
+ * gets one new commit whenever the served index or the audience's readable
+ * packages change, so existing clones keep fetching it incrementally. When a
+ * package leaves the view (e.g. its read permission was revoked), the view is
+ * recreated with fresh history so old commits cannot reach its index file.
+ * Views of audiences that no longer exist (revoked or expired tokens) are
+ * deleted when other views are rebuilt.
+ */
+
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import fs from "../utils/fs.ts";
+import git from "../utils/git.ts";
+import logger from "../utils/logger.ts";
+import type IndexManager from "./index-manager.ts";
+
+export class IndexViews {
+  private dir: string;
+  private indexManager: IndexManager;
+  private branch: string;
+  /** Served index commit and readable packages each view was last built from */
+  private built = new Map<string, string>();
+  /** Builds in progress, so concurrent fetches share one build */
+  private pending = new Map<string, Promise<string>>();
+
+  constructor(dir: string, indexManager: IndexManager, branch: string) {
+    this.dir = dir;
+    this.indexManager = indexManager;
+    this.branch = branch;
+  }
+
+  /** Path of an audience's view repository */
+  getPath(audience: string): string {
+    return join(this.dir, audience);
+  }
+
+  /** Check whether an audience's view has been built */
+  exists(audience: string): boolean {
+    return fs.exists(join(this.getPath(audience), ".git"));
+  }
+
+  /** Bring an audience's view up to date with the served index, returning its path */
+  async update(audience: string, packages: string[]): Promise<string> {
+    const inFlight = this.pending.get(audience);
+    if (inFlight) return inFlight;
+
+    const build = this.build(audience, packages).finally(() => this.pending.delete(audience));
+    this.pending.set(audience, build);
+    return build;
+  }
+
+  /** Delete the views of audiences not in `audiences`, returning how many were removed */
+  async prune(audiences: string[]): Promise<number> {
+    const keep = new Set(audiences);
+    let removed = 0;
+    for (const audience of fs.isDirectory(this.dir) ? await fs.listDir(this.dir) : []) {
+      if (keep.has(audience) || this.pending.has(audience)) continue;
+      await fs.remove(this.getPath(audience));
+      removed++;
+    }
+    for (const audience of this.built.keys()) {
+      if (!keep.has(audience)) this.built.delete(audience);
+    }
+    if (removed > 0) {
+      logger.info(`Removed ${removed} index views of revoked or expired tokens`);
+    }
+    return removed;
+  }
+
+  /** Rewrite a view's package files and commit the difference */
+  private async build(audience: string, packages: string[]): Promise<string> {
+    const path = this.getPath(audience);
+    const head = (await this.indexManager.getLastCommit())?.hash ?? "";
+    const names = [...packages].sort();
+    const key = `${head}:${createHash("sha256").update(names.join("\n")).digest("hex")}`;
+    if (this.built.get(audience) === key && this.exists(audience)) {
+      return path;
+    }
+
+    const committed = (await git.isRepo(path)) ? await git.listFiles(path) : [];
+    const removed = committed.filter((name) => !names.includes(name));
+    if (removed.length > 0) {
+      await fs.remove(path);
+      logger.info(`Recreating index view ${audience} without ${removed.length} packages`);
+    }
+
+    await fs.ensureDir(path);
+    if (!(await git.isRepo(path))) {
+      await git.init(path, this.branch);
+      await git.configureUser(path, "registry", "registry@local");
+    }
+
+    for (const entry of await fs.listDir(path)) {
+      if (!entry.startsWith(".")) {
+        await fs.remove(join(path, entry));
+      }
+    }
+    for (const name of names) {
+      const [username, packageName] = name.split("/");
+      const source = this.indexManager.getPackageIndexPath(username, packageName);
+      if (fs.isFile(source)) {
+        await fs.copy(source, join(path, username, packageName));
+      }
+    }
+
+    // Clients cannot clone a repository without commits, so a view starts with one
+    const initial = !(await git.getLastCommit(path));
+    if (initial || (await git.hasChanges(path))) {
+      await git.add(path, ["."]);
+      const message = head ? `Update index view from ${head.slice(0, 12)}` : "Create index view";
+      const result = await git.commit(path, message, { allowEmpty: initial });
+      if (!result.success) {
+        throw new Error(`Failed to commit index view ${audience}: ${result.stderr}`);
+      }
+      await git.updateServerInfo(path);
+      logger.debug(`Updated index view ${audience} (${names.length} packages)`);
+    }
+
+    this.built.set(audience, key);
+    return path;
+  }
+}
+
+export default IndexViews;
@@ -0,0 +1,69 @@
+/**
+ * Mirror plan files
+ *
+ * `mirror --plan-out` saves the resolved plan as JSON so a large mirror can be
+ * reviewed before `mirror --from-plan` applies it.
+ */
+
+import { existsSync } from "node:fs";
+import fs from "../utils/fs.ts";
+import { isValidVersion } from "./module.ts";
+import type { MirrorPlan } from "./types.ts";
+import { parsePackageId } from "./types.ts";
+
+/** Plan file format version written by this release */
+export const MIRROR_PLAN_FORMAT = 1;
+
+/** Write a mirror plan to a JSON file */
+export async function writeMirrorPlan(path: string, plan: MirrorPlan): Promise<void> {
+  await fs.writeJson(path, plan);
+}
+
+/** Read and validate a mirror plan file */
+export async function readMirrorPlan(path: string): Promise<MirrorPlan> {
+  if (!existsSync(path)) {
+    throw new Error(`Plan file not found: ${path}`);
+  }
+
+  let plan: MirrorPlan;
+  try {
+    plan = await fs.readJson<MirrorPlan>(path);
+  } catch (err) {
+    throw new Error(`Failed to parse plan file ${path}: ${err}`);
+  }
+
+  if (plan?.format !== MIRROR_PLAN_FORMAT) {
+    throw new Error(
+      `Unsupported plan format in ${path} (expected format ${MIRROR_PLAN_FORMAT}, got ${plan?.format})`,
+    );
+  }
+  if (typeof plan.source !== "string" || !Array.isArray(plan.download)) {
+    throw new Error(`Invalid plan file ${path}: missing source or download list`);
+  }
+  for (const item of plan.download) {
+    if (
+      typeof item?.name !== "string" ||
+      typeof item.version !== "string" ||
+      typeof item.checksum !== "string"
+    ) {
+      throw new Error(
+        `Invalid plan file ${path}: download entries need name, version and checksum`,
+      );
+    }
+    if (!parsePackageId(item.name) || !isValidVersion(item.version)) {
+      throw new Error(
+        `Invalid plan file ${path}: invalid download entry ${item.name}@${item.version}`,
+      );
+    }
+  }
+
+  return {
+    ...plan,
+    packages: Array.isArray(plan.packages) ? plan.packages : [],
+    cached: Array.isArray(plan.cached) ? plan.cached : [],
+    skipped: Array.isArray(plan.skipped) ? plan.skipped : [],
+    missing: Array.isArray(plan.missing) ? plan.missing : [],
+  };
+}
+
+export default { MIRROR_PLAN_FORMAT, readMirrorPlan, writeMirrorPlan };
@@ -0,0 +1,176 @@
+/**
+ * Module manifest handling for package archives
+ *
+ * Reads moon.mod.json and other module files from package zips.
+ */
+
+import fs from "../utils/fs.ts";
+import zip from "../utils/zip.ts";
+import { RegistryError } from "./errors.ts";
+import { isValidRange } from "./semver.ts";
+import type { ModuleManifest, ProjectDependency } from "./types.ts";
+import { parsePackageId } from "./types.ts";
+
+/** Module manifest file name */
+export const MODULE_FILE_NAME = "moon.mod.json";
+
+/** README file names tried when the manifest does not name one */
+const README_FILE_NAMES = ["README.md", "README.mbt.md", "README"];
+
+/** Pattern for versions accepted on publish */
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/** Check whether a version is a semantic version accepted on publish */
+export function isValidVersion(version: unknown): version is string {
+  return typeof version === "string" && VERSION_PATTERN.test(version);
+}
+
+/**
+ * Find a module-level file in an archive.
+ * Archives may store files at the root or under a single top-level directory.
+ */
+export function readModuleFile(data: Uint8Array, fileName: string): Uint8Array | null {
+  const entries = zip.listEntries(data);
+  const candidates = entries
+    .filter((e) => e.name === fileName || e.name.endsWith(`/${fileName}`))
+    .sort((a, b) => a.name.split("/").length - b.name.split("/").length);
+
+  const entry = candidates[0];
+  return entry ? zip.extractEntry(data, entry) : null;
+}
+
+/** Read and validate the module manifest from a package archive */
+export function readModuleManifest(data: Uint8Array): ModuleManifest {
+  let file: Uint8Array | null;
+  try {
+    file = readModuleFile(data, MODULE_FILE_NAME);
+  } catch (err) {
+    throw new RegistryError(`Invalid package archive: ${(err as Error).message}`, "invalid");
+  }
+
+  if (!file) {
+    throw new RegistryError(`Package archive does not contain ${MODULE_FILE_NAME}`, "invalid");
+  }
+
+  let manifest: ModuleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(file)) as ModuleManifest;
+  } catch (err) {
+    throw new RegistryError(`Failed to parse ${MODULE_FILE_NAME}: ${err}`, "invalid");
+  }
+
+  if (typeof manifest.name !== "string" || !parsePackageId(manifest.name)) {
+    throw new RegistryError(
+      `${MODULE_FILE_NAME} must have a name in the form 'username/package'`,
+      "invalid",
+    );
+  }
+
+  if (!isValidVersion(manifest.version)) {
+    throw new RegistryError(`${MODULE_FILE_NAME} must have a semantic version`, "invalid");
+  }
+
+  if (
+    manifest.deps !== undefined &&
+    (typeof manifest.deps !== "object" || !manifest.deps || Array.isArray(manifest.deps))
+  ) {
+    throw new RegistryError(`${MODULE_FILE_NAME} deps must be an object`, "invalid");
+  }
+  for (const [dep, requirement] of Object.entries(manifest.deps ?? {})) {
+    // Path and other local deps only resolve inside the publisher's checkout
+    if (typeof requirement === "object" && requirement !== null) {
+      throw new RegistryError(
+        `${MODULE_FILE_NAME} dep ${dep} is a path or local dependency, which cannot be published`,
+        "invalid",
+      );
+    }
+    if (typeof requirement !== "string" || !isValidRange(requirement)) {
+      throw new RegistryError(
+        `${MODULE_FILE_NAME} dep ${dep} must have a version requirement`,
+        "invalid",
+      );
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Read the README from a package archive: the file named by the manifest's
+ * `readme` field, otherwise the first of README.md, README.mbt.md and README
+ */
+export function readModuleReadme(data: Uint8Array): string | null {
+  let names = README_FILE_NAMES;
+  try {
+    const manifest = readModuleManifest(data);
+    if (typeof manifest.readme === "string" && manifest.readme) {
+      names = [manifest.readme.replace(/^\.\//, ""), ...README_FILE_NAMES];
+    }
+  } catch {
+    // Fall back to the default names for archives without a valid manifest
+  }
+
+  for (const name of names) {
+    const file = readModuleFile(data, name);
+    if (file) return new TextDecoder().decode(file);
+  }
+  return null;
+}
+
+/**
+ * Read the registry dependencies of a local MoonBit project from its
+ * moon.mod.json `deps` and `bin-deps`. Local `{ "path": ... }` dependencies
+ * are followed so their registry dependencies are included too.
+ */
+export async function readProjectDeps(dir: string): Promise<ProjectDependency[]> {
+  const result: ProjectDependency[] = [];
+  const visited = new Set<string>();
+
+  const visit = async (moduleDir: string): Promise<void> => {
+    const path = fs.resolve(moduleDir, MODULE_FILE_NAME);
+    if (visited.has(path)) return;
+    visited.add(path);
+
+    if (!fs.isFile(path)) {
+      throw new RegistryError(`No ${MODULE_FILE_NAME} found in ${moduleDir}`, "not_found");
+    }
+
+    let manifest: { name?: unknown; [field: string]: unknown };
+    try {
+      manifest = await fs.readJson<typeof manifest>(path);
+    } catch (err) {
+      throw new RegistryError(`Failed to parse ${path}: ${err}`, "invalid");
+    }
+
+    const from = typeof manifest.name === "string" ? manifest.name : moduleDir;
+    for (const field of ["deps", "bin-deps"]) {
+      const deps = manifest[field] ?? {};
+      if (typeof deps !== "object" || !deps) {
+        throw new RegistryError(`${path}: ${field} must be an object`, "invalid");
+      }
+
+      for (const [name, spec] of Object.entries(deps)) {
+        if (typeof spec === "string") {
+          result.push({ name, requirement: spec, from });
+        } else if (typeof spec?.path === "string") {
+          await visit(fs.resolve(moduleDir, spec.path));
+        } else if (typeof spec?.version === "string") {
+          result.push({ name, requirement: spec.version, from });
+        } else {
+          throw new RegistryError(`${path}: unsupported dependency '${name}'`, "invalid");
+        }
+      }
+    }
+  };
+
+  await visit(fs.resolve(dir));
+  return result;
+}
+
+export default {
+  readModuleFile,
+  readModuleManifest,
+  readModuleReadme,
+  readProjectDeps,
+  MODULE_FILE_NAME,
+};
@@ -4,24 +4,45 @@
  * Handles downloading, storing, and verifying packages.
  */
 
+import { createHash } from "node:crypto";
 import { existsSync } from "node:fs";
+import { type FileHandle, open, rename } from "node:fs/promises";
 import { join } from "node:path";
-import { DATA_DIRS } from "../config/defaults.ts";
+import { ACCESS_LOG_FILE, DATA_DIRS } from "../config/defaults.ts";
+import { retry } from "../utils/concurrency.ts";
 import crypto from "../utils/crypto.ts";
+import { parseDuration } from "../utils/duration.ts";
 import fs from "../utils/fs.ts";
 import logger from "../utils/logger.ts";
+import AccessTracker from "./access-tracker.ts";
+import { DownloadError } from "./errors.ts";
 import type { SourceManager } from "./source-manager.ts";
 import type { MirrorSource, PackageVersionId, RegistryConfig } from "./types.ts";
 
+/** Per-call download settings (defaults come from the `[mirror]` config) */
+export interface DownloadOptions {
+  /** Retries for server errors, network errors and timeouts */
+  retries?: number;
+  /** Per-request timeout in milliseconds */
+  timeoutMs?: number;
+  /** Delay before the first retry (doubles on each further retry) */
+  retryDelayMs?: number;
+  /** Called before each retry */
+  onRetry?: (error: unknown, attempt: number) => void;
+}
+
 export class PackageStore {
   private packagesDir: string;
   private config: RegistryConfig;
   private sourceManager: SourceManager | null;
+  /** Last access times of cached versions */
+  readonly access: AccessTracker;
 
   constructor(config: RegistryConfig, sourceManager?: SourceManager) {
     this.config = config;
     this.sourceManager = sourceManager ?? null;
     this.packagesDir = join(config.registry.data_dir, DATA_DIRS.PACKAGES);
+    this.access = new AccessTracker(join(config.registry.data_dir, ACCESS_LOG_FILE));
   }
 
   /** Get the path to the packages directory */
@@ -51,6 +72,7 @@ export class PackageStore {
     version: string,
     expectedChecksum?: string,
     sourceName?: string,
+    options: DownloadOptions = {},
   ): Promise<string> {
     const packagePath = this.getPackagePath(username, name, version);
 
@@ -74,30 +96,118 @@ export class PackageStore {
     const url = this.buildPackageUrl(source, username, name, version);
     const fetchOptions = this.getFetchOptionsForSource(source);
 
-    logger.info(`Downloading ${username}/${name}@${version} from ${source.name}`);
+    const id = `${username}/${name}@${version}`;
+    const retries = options.retries ?? this.config.mirror.retries;
+    const timeoutMs = options.timeoutMs ?? parseDuration(this.config.mirror.timeout);
 
-    const response = await fetch(url, fetchOptions);
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.status} ${response.statusText}`);
-    }
+    logger.info(`Downloading ${id} from ${source.name}`);
 
-    const data = await response.arrayBuffer();
+    // Stream into a partial file; interrupted downloads resume from it
+    const partPath = `${packagePath}.part`;
     await fs.ensureDir(join(this.packagesDir, username, name));
-    await Bun.write(packagePath, data);
 
-    // Verify checksum
-    if (expectedChecksum) {
-      const valid = await crypto.verifyChecksum(packagePath, expectedChecksum);
-      if (!valid) {
-        await fs.remove(packagePath);
-        throw new Error(`Checksum verification failed for ${username}/${name}@${version}`);
-      }
+    const checksum = await retry(() => this.fetchToFile(url, fetchOptions, timeoutMs, partPath), {
+      retries,
+      baseDelayMs: options.retryDelayMs,
+      shouldRetry: (err) => err instanceof DownloadError && err.retryable,
+      onRetry: (err, attempt, delayMs) => {
+        logger.warn(`Retrying ${id} in ${delayMs}ms (attempt ${attempt} failed: ${err})`);
+        options.onRetry?.(err, attempt);
+      },
+    });
+
+    // Verify checksum before the archive becomes visible in the cache
+    if (expectedChecksum && checksum !== expectedChecksum.toLowerCase()) {
+      await fs.remove(partPath);
+      throw new Error(`Checksum verification failed for ${id}`);
     }
 
+    await rename(partPath, packagePath);
+
     logger.debug(`Downloaded ${username}/${name}@${version}`);
     return packagePath;
   }
 
+  /**
+   * Stream a package archive into a partial file, hashing it on the way.
+   * An existing partial file is resumed with a Range request; if the source
+   * ignores the range, the whole archive is downloaded again. The timeout
+   * aborts the request when no data arrives for that long.
+   */
+  private async fetchToFile(
+    url: string,
+    fetchOptions: RequestInit,
+    timeoutMs: number,
+    partPath: string,
+  ): Promise<string> {
+    const offset = existsSync(partPath) ? await fs.fileSize(partPath) : 0;
+    const headers = new Headers(fetchOptions.headers);
+    if (offset > 0) {
+      headers.set("Range", `bytes=${offset}-`);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+
+    let file: FileHandle | null = null;
+    try {
+      resetTimer();
+      const response = await fetch(url, { ...fetchOptions, headers, signal: controller.signal });
+
+      if (response.status === 416) {
+        // The partial file no longer matches the archive; start over
+        await fs.remove(partPath);
+        throw new DownloadError("Partial download could not be resumed");
+      }
+      if (!response.ok || !response.body) {
+        throw new DownloadError(
+          `Failed to download package: ${response.status} ${response.statusText}`,
+          response.status,
+        );
+      }
+
+      const resumed = response.status === 206;
+      if (resumed && rangeStart(response) !== offset) {
+        await fs.remove(partPath);
+        throw new DownloadError("Source returned an unexpected byte range");
+      }
+      if (offset > 0) {
+        logger.debug(resumed ? `Resuming at byte ${offset}: ${url}` : `Restarting: ${url}`);
+      }
+
+      const hash = createHash("sha256");
+      if (resumed) {
+        await crypto.hashFile(hash, partPath);
+      }
+
+      file = await open(partPath, resumed ? "a" : "w");
+      for await (const chunk of response.body) {
+        resetTimer();
+        hash.update(chunk);
+        await file.write(chunk);
+      }
+
+      return hash.digest("hex");
+    } catch (err) {
+      if (err instanceof DownloadError) throw err;
+      if (timedOut) {
+        throw new DownloadError(`Download stalled for ${timeoutMs}ms`);
+      }
+      throw new DownloadError(`Failed to download package: ${err}`);
+    } finally {
+      clearTimeout(timer);
+      await file?.close();
+    }
+  }
+
   /** Download package with fallback through all enabled sources */
   async downloadPackageWithFallback(
     username: string,
@@ -138,6 +248,69 @@ export class PackageStore {
     return this.downloadPackage(username, name, version, expectedChecksum);
   }
 
+  /** Store a package archive and return its path and SHA256 checksum */
+  async storePackage(
+    username: string,
+    name: string,
+    version: string,
+    data: Uint8Array,
+  ): Promise<{ path: string; checksum: string }> {
+    const packagePath = this.getPackagePath(username, name, version);
+    const tempPath = `${packagePath}.tmp`;
+
+    await fs.ensureDir(join(this.packagesDir, username, name));
+    await Bun.write(tempPath, data);
+
+    const checksum = await crypto.sha256File(tempPath);
+    await rename(tempPath, packagePath);
+
+    logger.debug(`Stored ${username}/${name}@${version}`);
+    return { path: packagePath, checksum };
+  }
+
+  /**
+   * Get the size of a package archive at its source without downloading it:
+   * the Content-Length of a HEAD request, or the total from a one-byte Range
+   * request when HEAD is not supported. Returns null when the size is unknown.
+   */
+  async fetchRemoteSize(
+    username: string,
+    name: string,
+    version: string,
+    sourceName?: string,
+  ): Promise<number | null> {
+    const source = this.getSourceForDownload(sourceName);
+    const url = this.buildPackageUrl(source, username, name, version);
+    const fetchOptions = this.getFetchOptionsForSource(source);
+    const timeoutMs = parseDuration(this.config.mirror.timeout);
+
+    try {
+      const head = await fetch(url, {
+        ...fetchOptions,
+        method: "HEAD",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const length = Number(head.headers.get("Content-Length"));
+      if (head.ok && head.headers.has("Content-Length") && Number.isFinite(length)) {
+        return length;
+      }
+
+      const headers = new Headers(fetchOptions.headers);
+      headers.set("Range", "bytes=0-0");
+      const response = await fetch(url, {
+        ...fetchOptions,
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await response.body?.cancel();
+      const total = response.headers.get("Content-Range")?.match(/\/(\d+)$/);
+      return response.status === 206 && total ? Number(total[1]) : null;
+    } catch (err) {
+      logger.debug(`Failed to get the size of ${username}/${name}@${version}: ${err}`);
+      return null;
+    }
+  }
+
   /** Get source for download operation */
   private getSourceForDownload(sourceName?: string): MirrorSource {
     if (this.sourceManager) {
@@ -176,7 +349,9 @@ export class PackageStore {
     }
 
     // Fall back to default pattern
-    const pattern = source.package_url_pattern ?? "https://download.mooncakes.io/user/${username}/${name}/${version}.zip";
+    const pattern =
+      source.package_url_pattern ??
+      "https://download.mooncakes.io/user/${username}/${name}/${version}.zip";
     return pattern
       .replace(/\$\{url\}/g, source.url)
       .replace(/\$\{username\}/g, username)
@@ -225,6 +400,15 @@ export class PackageStore {
     return packages;
   }
 
+  /** List the cached versions of a single package */
+  async listCachedVersions(username: string, name: string): Promise<string[]> {
+    const pkgDir = join(this.packagesDir, username, name);
+    if (!fs.isDirectory(pkgDir)) return [];
+
+    const files = await fs.listDir(pkgDir);
+    return files.filter((file) => file.endsWith(".zip")).map((file) => file.slice(0, -4));
+  }
+
   /** Get total cache size in bytes */
   async getCacheSize(): Promise<number> {
     let total = 0;
@@ -240,6 +424,7 @@ export class PackageStore {
     const path = this.getPackagePath(username, name, version);
     if (existsSync(path)) {
       await fs.remove(path);
+      await this.access.forget(`${username}/${name}@${version}`);
       logger.debug(`Removed ${username}/${name}@${version}`);
     }
   }
@@ -258,4 +443,10 @@ export class PackageStore {
   }
 }
 
+/** Get the first byte offset of a 206 response (from Content-Range) */
+function rangeStart(response: Response): number | null {
+  const match = response.headers.get("Content-Range")?.match(/^bytes (\d+)-/);
+  return match ? Number(match[1]) : null;
+}
+
 export default PackageStore;
@@ -4,17 +4,63 @@
  * Coordinates index management, package storage, and dependency resolution.
  */
 
+import { createHash, timingSafeEqual } from "node:crypto";
 import { existsSync } from "node:fs";
 import { join, resolve } from "node:path";
-import { CONFIG_FILE_NAME, DATA_DIRS } from "../config/defaults.ts";
+import {
+  BUNDLE_STATE_FILE,
+  CONFIG_FILE_NAME,
+  DATA_DIRS,
+  SEARCH_INDEX_FILE,
+  TOKENS_FILE,
+} from "../config/defaults.ts";
 import configLoader from "../config/loader.ts";
+import { Mutex, mapConcurrent } from "../utils/concurrency.ts";
+import { resolveEnvVars } from "../utils/env.ts";
 import fs from "../utils/fs.ts";
 import logger from "../utils/logger.ts";
-import DependencyResolver from "./dependency-resolver.ts";
+import AccessControl from "./acl.ts";
+import Bundler, { readBundleManifest } from "./bundle.ts";
+import CacheGc, { type GcOptions } from "./cache-gc.ts";
+import CacheVerifier, { type VerifyOptions } from "./cache-verifier.ts";
+import { buildDependencyGraph } from "./dependency-graph.ts";
+import DependencyResolver, { matchGlob } from "./dependency-resolver.ts";
+import { RegistryError } from "./errors.ts";
 import IndexManager from "./index-manager.ts";
+import IndexViews from "./index-views.ts";
+import { MIRROR_PLAN_FORMAT } from "./mirror-plan.ts";
+import { readModuleManifest, readProjectDeps } from "./module.ts";
 import PackageStore from "./package-store.ts";
+import SearchIndex, { type SearchOptions } from "./search-index.ts";
+import { sortVersions } from "./semver.ts";
 import { SourceManager } from "./source-manager.ts";
-import type { MirrorOptions, MirrorSource, PackageMetadata, RegistryConfig } from "./types.ts";
+import TokenStore, { hasScope } from "./token-store.ts";
+import type {
+  AclDecision,
+  AclPermission,
+  BundleExportReport,
+  BundleImportReport,
+  CachePolicy,
+  DependencyGraph,
+  DependencyResolution,
+  GcReport,
+  MirrorOptions,
+  MirrorPlan,
+  MirrorSource,
+  PackageEntry,
+  PackageInfo,
+  PackageMetadata,
+  PackageStats,
+  PackageVersion,
+  PackageVersionInfo,
+  RegistryConfig,
+  RegistryStats,
+  ReverseDependency,
+  SearchResult,
+  SourceStats,
+  TokenIdentity,
+  VerifyReport,
+} from "./types.ts";
 import { DEFAULT_CONFIG, formatPackageVersionId, parsePackageId } from "./types.ts";
 
 export class Registry {
@@ -23,7 +69,15 @@ export class Registry {
   public indexManager: IndexManager;
   public packageStore: PackageStore;
   public dependencyResolver: DependencyResolver;
+  public searchIndex: SearchIndex;
+  public tokens: TokenStore;
   public rootDir: string;
+  /** Per-token filtered index repositories */
+  private indexViews: IndexViews;
+  /** In-flight pull-through fetches, keyed by package version id */
+  private pendingFetches = new Map<string, Promise<string | null>>();
+  /** Serializes served index changes and their commits */
+  private indexLock = new Mutex();
 
   constructor(config: RegistryConfig, rootDir: string) {
     this.config = config;
@@ -32,6 +86,17 @@ export class Registry {
     this.indexManager = new IndexManager(config, this.sourceManager);
     this.packageStore = new PackageStore(config, this.sourceManager);
     this.dependencyResolver = new DependencyResolver(this.indexManager, this.packageStore);
+    this.searchIndex = new SearchIndex(
+      join(config.registry.data_dir, SEARCH_INDEX_FILE),
+      this.indexManager,
+      this.packageStore,
+    );
+    this.tokens = new TokenStore(join(config.registry.data_dir, TOKENS_FILE));
+    this.indexViews = new IndexViews(
+      join(config.registry.data_dir, DATA_DIRS.INDEX_VIEWS),
+      this.indexManager,
+      config.git.branch,
+    );
   }
 
   /** Load a registry from a directory */
@@ -64,10 +129,11 @@ export class Registry {
     await fs.ensureDir(rootDir);
 
     // Create config
+    const defaults = JSON.parse(JSON.stringify(DEFAULT_CONFIG)) as RegistryConfig;
     const config: RegistryConfig = {
-      ...DEFAULT_CONFIG,
+      ...defaults,
       registry: {
-        ...DEFAULT_CONFIG.registry,
+        ...defaults.registry,
         name: name ?? "local-registry",
         data_dir: join(rootDir, "data"),
       },
@@ -92,41 +158,58 @@ export class Registry {
 
   /** Mirror packages from upstream or specified source */
   async mirror(options: MirrorOptions): Promise<void> {
-    // Get the source to mirror from
-    const source = this.sourceManager.getSource(options.source);
-    if (!source) {
-      throw new Error(`Source '${options.source ?? "default"}' not found or not configured`);
-    }
+    const plan = await this.planMirror(options);
+    await this.applyMirrorPlan(plan, { concurrency: options.concurrency });
+  }
 
-    if (!source.enabled) {
-      throw new Error(`Source '${source.name}' is disabled`);
-    }
+  /**
+   * Resolve what a mirror would download without downloading anything.
+   * With `estimateSizes`, archive sizes are looked up with HEAD requests.
+   */
+  async planMirror(options: MirrorOptions & { estimateSizes?: boolean }): Promise<MirrorPlan> {
+    const source = this.getMirrorSource(options.source);
 
     // First, ensure we have the source index
-    logger.info(`Updating index from source '${source.name}'...`);
-    await this.indexManager.syncSourceIndex(source.name);
+    if (!options.skipIndexSync) {
+      logger.info(`Updating index from source '${source.name}'...`);
+      await this.withIndexLock(() => this.indexManager.syncSourceIndex(source.name));
+    }
 
     // Resolve packages to mirror
-    logger.info("Resolving packages to mirror...");
-    const resolution = await this.dependencyResolver.resolve(options, source.name);
-
-    // Log warnings for skipped dependencies
-    this.dependencyResolver.logSkippedWarnings(resolution, options.quiet);
-
-    // Download packages
-    const toDownload = Array.from(resolution.packages).filter((p) => !resolution.cached.has(p));
-
-    logger.info(
-      `Found ${resolution.packages.size} packages to mirror (${toDownload.length} to download)`,
-    );
-
-    let downloaded = 0;
-    let failed = 0;
+    const resolution = await this.resolveMirror(options, source.name);
+
+    const plan: MirrorPlan = {
+      format: MIRROR_PLAN_FORMAT,
+      created_at: new Date().toISOString(),
+      source: source.name,
+      packages: Array.from(resolution.packages),
+      download: [],
+      cached: [],
+      skipped: Array.from(resolution.skipped, ([name, requiredBy]) => ({
+        name,
+        required_by: requiredBy,
+        cached: resolution.cached.has(name),
+      })),
+      missing: [],
+      total_bytes: null,
+    };
 
-    for (const pkgName of toDownload) {
+    for (const pkgName of resolution.packages) {
       const pkgId = parsePackageId(pkgName);
       if (!pkgId) continue;
 
+      // Split the versions selected by the resolver into cached and to download
+      const selected = resolution.versions.get(pkgName) ?? new Set<string>();
+      const uncached = new Set<string>();
+      for (const version of sortVersions(Array.from(selected))) {
+        if (this.packageStore.hasPackage(pkgId.username, pkgId.name, version)) {
+          plan.cached.push({ name: pkgName, version });
+        } else {
+          uncached.add(version);
+        }
+      }
+      if (uncached.size === 0 && selected.size > 0) continue;
+
       const metadata = await this.indexManager.getPackageFromSource(
         pkgId.username,
         pkgId.name,
@@ -134,33 +217,462 @@ export class Registry {
       );
       if (!metadata) {
         logger.warn(`Package ${pkgName} not found in index`);
-        failed++;
+        plan.missing.push(pkgName);
         continue;
       }
 
-      // Download all non-yanked versions
       for (const version of metadata.versions) {
-        if (version.yanked) continue;
-
-        try {
-          await this.packageStore.downloadPackage(
-            pkgId.username,
-            pkgId.name,
-            version.version,
-            version.checksum,
-            source.name,
-          );
-          downloaded++;
-        } catch (err) {
-          logger.error(
-            `Failed to download ${formatPackageVersionId({ ...pkgId, version: version.version })}: ${err}`,
-          );
-          failed++;
+        if (!uncached.has(version.version)) continue;
+        plan.download.push({
+          name: pkgName,
+          version: version.version,
+          checksum: version.checksum,
+          source: source.name,
+          size: null,
+        });
+      }
+    }
+
+    if (options.estimateSizes) {
+      const concurrency = options.concurrency ?? this.config.mirror.concurrency;
+      await mapConcurrent(plan.download, concurrency, async (item) => {
+        const pkgId = parsePackageId(item.name);
+        if (!pkgId) return;
+        item.size = await this.packageStore.fetchRemoteSize(
+          pkgId.username,
+          pkgId.name,
+          item.version,
+          item.source,
+        );
+      });
+      plan.total_bytes = plan.download.reduce((total, item) => total + (item.size ?? 0), 0);
+    }
+
+    logger.info(
+      `Found ${resolution.packages.size} packages to mirror (${plan.download.length + plan.cached.length} versions, ${plan.download.length} to download)`,
+    );
+    return plan;
+  }
+
+  /** Download the versions of a mirror plan and merge its packages into the served index */
+  async applyMirrorPlan(plan: MirrorPlan, options: { concurrency?: number } = {}): Promise<void> {
+    const source = this.getMirrorSource(plan.source);
+
+    // Plans can be applied later, so skip anything cached in the meantime
+    const tasks = plan.download.filter((item) => {
+      const pkgId = parsePackageId(item.name);
+      return pkgId && !this.packageStore.hasPackage(pkgId.username, pkgId.name, item.version);
+    });
+
+    // Download in parallel with a bounded pool
+    const concurrency = options.concurrency ?? this.config.mirror.concurrency;
+    let failed = plan.missing.length;
+    let downloaded = 0;
+    let retried = 0;
+
+    await mapConcurrent(tasks, concurrency, async ({ name, version, checksum }) => {
+      const pkgId = parsePackageId(name);
+      if (!pkgId) return;
+      try {
+        await this.packageStore.downloadPackage(
+          pkgId.username,
+          pkgId.name,
+          version,
+          checksum,
+          source.name,
+          {
+            onRetry: () => {
+              retried++;
+            },
+          },
+        );
+        downloaded++;
+      } catch (err) {
+        logger.error(`Failed to download ${formatPackageVersionId({ ...pkgId, version })}: ${err}`);
+        failed++;
+      }
+    });
+
+    // Publish mirrored metadata in the served index so clients can resolve it
+    await this.withIndexLock(async () => {
+      const merged = await this.indexManager.mergeFromSources(plan.packages);
+      if (merged > 0) {
+        await this.indexManager.commit(`Mirror ${merged} packages from ${source.name}`);
+      }
+    });
+    await this.updateSearchIndex(plan.packages);
+
+    logger.success(
+      `Mirrored ${downloaded} package versions (${retried} retried, ${failed} failed)`,
+    );
+  }
+
+  /**
+   * Resolve mirror patterns (or a project's deps) against a source index, or
+   * the served index without a source, logging skipped dependencies
+   */
+  private async resolveMirror(
+    options: MirrorOptions,
+    sourceName?: string,
+  ): Promise<DependencyResolution> {
+    let resolution: DependencyResolution;
+    if (options.project) {
+      logger.info(`Resolving dependencies of ${options.project}...`);
+      const deps = await readProjectDeps(options.project);
+      resolution = await this.dependencyResolver.resolveProject(deps, sourceName);
+    } else {
+      logger.info("Resolving packages to mirror...");
+      resolution = await this.dependencyResolver.resolve(options, sourceName);
+    }
+
+    this.dependencyResolver.logSkippedWarnings(resolution, options.quiet);
+    return resolution;
+  }
+
+  /** Get an enabled source to mirror from */
+  private getMirrorSource(name?: string): MirrorSource {
+    const source = this.sourceManager.getSource(name);
+    if (!source) {
+      throw new Error(`Source '${name ?? "default"}' not found or not configured`);
+    }
+
+    if (!source.enabled) {
+      throw new Error(`Source '${source.name}' is disabled`);
+    }
+    return source;
+  }
+
+  /**
+   * Resolve the dependency graph for mirror patterns against the local copy
+   * of a source index (without syncing or downloading anything)
+   */
+  async resolveGraph(options: MirrorOptions): Promise<DependencyGraph> {
+    const source = this.sourceManager.getSource(options.source);
+    if (!source) {
+      throw new Error(`Source '${options.source ?? "default"}' not found or not configured`);
+    }
+
+    const resolution = await this.dependencyResolver.resolve(options, source.name);
+    return buildDependencyGraph(resolution);
+  }
+
+  /**
+   * Publish a package archive to the local index; publishing on behalf of a
+   * token checks its `[[acl]]` publish permission
+   */
+  async publish(
+    data: Uint8Array,
+    options: { identity?: TokenIdentity } = {},
+  ): Promise<PackageEntry> {
+    const manifest = readModuleManifest(data);
+    const pkgId = parsePackageId(manifest.name);
+    if (!pkgId) {
+      throw new RegistryError(`Invalid package name: ${manifest.name}`, "invalid");
+    }
+    if (options.identity) {
+      const decision = this.checkAccess(options.identity, manifest.name, "publish");
+      if (!decision.allowed) {
+        throw new RegistryError(`Cannot publish ${manifest.name}: ${decision.reason}`, "forbidden");
+      }
+    }
+
+    const entry = await this.withIndexLock(async () => {
+      const existing = await this.indexManager.getPackage(pkgId.username, pkgId.name);
+      if (existing?.versions.some((v) => v.version === manifest.version)) {
+        throw new RegistryError(
+          `${formatPackageVersionId({ ...pkgId, version: manifest.version })} is already published`,
+          "conflict",
+        );
+      }
+
+      const { checksum } = await this.packageStore.storePackage(
+        pkgId.username,
+        pkgId.name,
+        manifest.version,
+        data,
+      );
+
+      const entry: PackageEntry = {
+        name: manifest.name,
+        version: manifest.version,
+        checksum,
+        deps: manifest.deps ?? {},
+        created_at: new Date().toISOString(),
+      };
+
+      await this.indexManager.writePackageEntry(entry);
+      await this.indexManager.commit(`Publish ${manifest.name}@${manifest.version}`);
+      return entry;
+    });
+    await this.updateSearchIndex([manifest.name]);
+
+    logger.success(`Published ${manifest.name}@${manifest.version}`);
+    return entry;
+  }
+
+  /** Mark a package version as yanked (artifacts stay downloadable) */
+  async yank(username: string, name: string, version: string): Promise<boolean> {
+    return this.setYanked(username, name, version, true);
+  }
+
+  /** Clear the yanked flag of a package version */
+  async unyank(username: string, name: string, version: string): Promise<boolean> {
+    return this.setYanked(username, name, version, false);
+  }
+
+  /** Update the yanked flag and commit the index change */
+  private async setYanked(
+    username: string,
+    name: string,
+    version: string,
+    yanked: boolean,
+  ): Promise<boolean> {
+    const id = formatPackageVersionId({ username, name, version });
+    const changed = await this.withIndexLock(async () => {
+      if (!(await this.indexManager.setYanked(username, name, version, yanked))) return false;
+      await this.indexManager.commit(`${yanked ? "Yank" : "Unyank"} ${id}`);
+      return true;
+    });
+
+    if (!changed) {
+      logger.info(`${id} is already ${yanked ? "yanked" : "not yanked"}`);
+      return false;
+    }
+
+    logger.success(`${yanked ? "Yanked" : "Unyanked"} ${id}`);
+    return true;
+  }
+
+  /**
+   * Get a package archive, fetching it from the sources on a cache miss.
+   * Concurrent requests for the same version share one upstream fetch.
+   * Returns null when no index knows the version.
+   */
+  async fetchPackage(username: string, name: string, version: string): Promise<string | null> {
+    const id = formatPackageVersionId({ username, name, version });
+    const cached = this.packageStore.getPackageFile(username, name, version);
+    if (cached) {
+      await this.packageStore.access.touch(id);
+      return cached;
+    }
+
+    const pending = this.pendingFetches.get(id);
+    if (pending) {
+      logger.debug(`Joining in-flight fetch for ${id}`);
+      return pending;
+    }
+
+    const fetchPromise = this.fetchMissingPackage(username, name, version)
+      .then(async (path) => {
+        if (path) {
+          await this.packageStore.access.touch(id);
+          await this.updateSearchIndex([`${username}/${name}`]);
         }
+        return path;
+      })
+      .finally(() => {
+        this.pendingFetches.delete(id);
+      });
+    this.pendingFetches.set(id, fetchPromise);
+    return fetchPromise;
+  }
+
+  /** Look up a version's checksum and download it through the enabled sources */
+  private async fetchMissingPackage(
+    username: string,
+    name: string,
+    version: string,
+  ): Promise<string | null> {
+    if (this.sourceManager.listEnabledSources().length === 0) {
+      return null;
+    }
+
+    const metadata = await this.indexManager.getPackage(username, name);
+    let checksum = metadata?.versions.find((v) => v.version === version)?.checksum;
+
+    if (!checksum) {
+      const found = await this.indexManager.findVersionInSources(username, name, version);
+      if (!found) {
+        logger.debug(`${username}/${name}@${version} not found in any source index`);
+        return null;
       }
+      checksum = found.version.checksum;
+    }
+
+    logger.info(`Fetching ${formatPackageVersionId({ username, name, version })} from sources`);
+    return this.packageStore.downloadPackageWithFallback(username, name, version, checksum);
+  }
+
+  /** Apply cache retention policies (config `[cache]` merged with overrides) */
+  async gc(options: GcOptions & { policy?: CachePolicy } = {}): Promise<GcReport> {
+    const gc = new CacheGc(this.indexManager, this.packageStore);
+    return gc.run(
+      { ...this.config.cache, ...options.policy },
+      { dryRun: options.dryRun, patterns: options.patterns ?? this.config.mirror.packages },
+    );
+  }
+
+  /** Audit cached archives against the index, optionally repairing them */
+  async verify(options: VerifyOptions = {}): Promise<VerifyReport> {
+    const verifier = new CacheVerifier(this.indexManager, this.packageStore);
+    return verifier.verify(options);
+  }
+
+  /**
+   * Write an offline bundle of served packages, selected with the same
+   * patterns and dependency resolution as `mirror`. With `since` (an index
+   * revision or a previous bundle), only versions and index lines changed
+   * since then are included.
+   */
+  async exportBundle(
+    options: MirrorOptions,
+    output: string,
+    bundleOptions: { since?: string } = {},
+  ): Promise<BundleExportReport> {
+    const resolution = await this.resolveMirror(options);
+    const commit = await this.indexManager.getLastCommit();
+    const bundler = new Bundler(this.indexManager, this.packageStore, this.getBundleStatePath());
+    const exportOptions = {
+      registry: this.config.registry.name,
+      indexCommit: commit?.hash ?? null,
+    };
+
+    if (!bundleOptions.since) {
+      return bundler.export({ packages: resolution.versions }, output, exportOptions);
+    }
+
+    const since = bundleOptions.since;
+    const rev = fs.exists(since) ? (await readBundleManifest(since)).index_commit : since;
+    if (!rev) {
+      throw new RegistryError(`Bundle ${since} does not record an index commit`, "invalid");
+    }
+    const delta = await this.indexManager.diffSince(rev);
+
+    // New versions follow the selection; updated lines apply to any version of a selected package
+    const packages = new Map<string, Set<string>>();
+    for (const [pkgName, versions] of delta.added) {
+      const selected = resolution.versions.get(pkgName);
+      const added = Array.from(versions).filter((v) => selected?.has(v));
+      if (added.length > 0) packages.set(pkgName, new Set(added));
+    }
+    const updates = new Map(
+      Array.from(delta.updated).filter(([pkgName]) => resolution.packages.has(pkgName)),
+    );
+
+    return bundler.export({ packages, updates }, output, { ...exportOptions, base: delta.base });
+  }
+
+  /** Verify a bundle and merge it into the package store and served index */
+  async importBundle(path: string): Promise<BundleImportReport> {
+    const bundler = new Bundler(this.indexManager, this.packageStore, this.getBundleStatePath());
+    const report = await this.withIndexLock(async () => {
+      const report = await bundler.import(path);
+      const { manifest } = report;
+      const kind = manifest.base ? "delta bundle" : "bundle";
+      await this.indexManager.commit(
+        `Import ${kind} from ${manifest.registry} (${manifest.packages.length} package versions)`,
+      );
+      return report;
+    });
+
+    const { manifest } = report;
+    const names = [...manifest.packages, ...manifest.updates].map((p) => p.name);
+    await this.updateSearchIndex(Array.from(new Set(names)));
+    return report;
+  }
+
+  /** Path of the file recording the last imported bundle */
+  private getBundleStatePath(): string {
+    return join(this.config.registry.data_dir, BUNDLE_STATE_FILE);
+  }
+
+  /**
+   * Resolve a request token to its identity: a token from the token store,
+   * or the configured `server.publish_token`, which grants `publish` only
+   */
+  async authenticate(token: string): Promise<TokenIdentity | null> {
+    const record = await this.tokens.authenticate(token);
+    if (record) return record;
+
+    const configured = this.config.server.publish_token;
+    const expected = configured ? resolveEnvVars(configured) : "";
+    if (!expected) return null;
+
+    // Compare digests so the comparison is constant-time regardless of length
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    if (!timingSafeEqual(digest(token), digest(expected))) return null;
+    return { id: "publish_token", name: "server.publish_token", scopes: ["publish"] };
+  }
+
+  /** Decide whether an identity (null when anonymous) may act on a package under `[[acl]]` */
+  checkAccess(identity: TokenIdentity | null, pkg: string, action: AclPermission): AclDecision {
+    return new AccessControl(this.config.acl).check(identity, pkg, action);
+  }
+
+  /** Keep the packages an identity may read under `[[acl]]` */
+  filterReadable(identity: TokenIdentity | null, packages: string[]): string[] {
+    return new AccessControl(this.config.acl).filterReadable(identity, packages);
+  }
+
+  /**
+   * Index repository to serve to an identity: the served index, or with
+   * `[[acl]]` rules a view holding only the packages it may read. Views are
+   * rebuilt when `refresh` is set (at the start of a fetch) or missing, and
+   * rebuilding deletes the views of revoked and expired tokens.
+   */
+  async getIndexRepository(
+    identity: TokenIdentity | null,
+    options: { refresh?: boolean } = {},
+  ): Promise<string> {
+    if (!this.config.acl?.length || (identity && hasScope(identity, "admin"))) {
+      return this.indexManager.path;
     }
 
-    logger.success(`Mirrored ${downloaded} package versions (${failed} failed)`);
+    const audience = identity?.id ?? "anonymous";
+    if (!options.refresh && this.indexViews.exists(audience)) {
+      return this.indexViews.getPath(audience);
+    }
+    const now = Date.now();
+    const active = (await this.tokens.list())
+      .filter((t) => !t.expires_at || Date.parse(t.expires_at) > now)
+      .map((t) => t.id);
+    await this.indexViews.prune([audience, "anonymous", "publish_token", ...active]);
+
+    return this.indexViews.update(
+      audience,
+      this.filterReadable(identity, await this.indexManager.listPackages()),
+    );
+  }
+
+  /** Search packages by name, username, description and keywords */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    if (!this.searchIndex.exists()) {
+      await this.searchIndex.refresh();
+    }
+    return this.searchIndex.search(query, options);
+  }
+
+  /** Re-index packages after they changed, building the full index if there is none yet */
+  private async updateSearchIndex(names: string[]): Promise<void> {
+    try {
+      if (this.searchIndex.exists()) {
+        await this.searchIndex.update(names);
+      } else {
+        await this.searchIndex.refresh();
+      }
+    } catch (err) {
+      logger.warn(`Failed to update the search index: ${err}`);
+    }
+  }
+
+  /** Find the package versions that depend on a package across the served and source indexes */
+  async findDependents(
+    username: string,
+    name: string,
+    options: { transitive?: boolean; version?: string } = {},
+  ): Promise<ReverseDependency[]> {
+    const sources = this.sourceManager.listEnabledSources().map((s) => s.name);
+    return this.dependencyResolver.findDependents(`${username}/${name}`, sources, options);
   }
 
   /** Get package metadata */
@@ -179,30 +691,153 @@ export class Registry {
       throw new Error("No remote URL configured");
     }
 
-    if (mode === "push") {
-      await this.indexManager.push();
-    } else {
-      await this.indexManager.pull();
-    }
+    await this.withIndexLock(async () => {
+      if (mode === "push") {
+        await this.indexManager.push();
+      } else {
+        await this.indexManager.pull();
+      }
+    });
   }
 
-  /** Get registry statistics */
-  async getStats(): Promise<{
-    packages: number;
-    cachedVersions: number;
-    cacheSize: number;
-  }> {
+  /**
+   * Run a change to the served or source indexes and its commit while no
+   * other change runs: concurrent read-modify-writes of index files lose
+   * updates, and overlapping git commands fail on the index lock
+   */
+  async withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.indexLock.run(task);
+  }
+
+  /**
+   * Get registry statistics; with an identity (null when anonymous), the
+   * largest packages only list packages it may read
+   */
+  async getStats(
+    options: { top?: number; identity?: TokenIdentity | null } = {},
+  ): Promise<RegistryStats> {
     const packages = await this.listPackages();
     const cached = await this.packageStore.listCached();
     const cacheSize = await this.packageStore.getCacheSize();
 
+    const sources: SourceStats[] = [];
+    const syncState = await this.indexManager.readSyncState();
+    for (const source of this.sourceManager.listSources()) {
+      sources.push({
+        name: source.name,
+        enabled: source.enabled,
+        packages: (await this.indexManager.listPackagesFromSource(source.name)).length,
+        lastSync: syncState[source.name] ?? null,
+      });
+    }
+
+    const { identity } = options;
+    const largest = (await this.listPackageStats())
+      .filter((pkg) => pkg.cacheSize > 0)
+      .filter(
+        (pkg) => identity === undefined || this.checkAccess(identity, pkg.name, "read").allowed,
+      )
+      .sort((a, b) => b.cacheSize - a.cacheSize)
+      .slice(0, options.top ?? 10);
+
+    const commit = await this.indexManager.getLastCommit();
+    const syncTimes = Object.values(syncState).sort();
+
     return {
       packages: packages.length,
       cachedVersions: cached.length,
       cacheSize,
+      sources,
+      largest,
+      index: {
+        commit: commit?.hash ?? null,
+        committedAt: commit?.date ?? null,
+        lastSync: syncTimes.at(-1) ?? null,
+      },
     };
   }
 
+  /** Get index and cache statistics for served or cached packages, optionally filtered by a glob */
+  async listPackageStats(pattern?: string): Promise<PackageStats[]> {
+    const cacheSizes = await this.collectCacheSizes();
+    const names = new Set([...(await this.listPackages()), ...cacheSizes.keys()]);
+
+    const result: PackageStats[] = [];
+    for (const name of Array.from(names).sort()) {
+      if (pattern && !matchGlob(name, pattern)) continue;
+      const pkgId = parsePackageId(name);
+      if (!pkgId) continue;
+
+      const metadata = await this.getPackage(pkgId.username, pkgId.name);
+      const sizes = cacheSizes.get(name) ?? new Map<string, number>();
+      result.push({
+        name,
+        versions: metadata?.versions.length ?? 0,
+        latest: latestVersion(metadata?.versions ?? []),
+        cachedVersions: sizes.size,
+        cacheSize: sumValues(sizes),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a package's versions with their cache state.
+   * Falls back to the enabled source indexes for packages not in the served index.
+   */
+  async getPackageInfo(username: string, name: string): Promise<PackageInfo | null> {
+    let origin = "index";
+    let metadata = await this.getPackage(username, name);
+    if (!metadata) {
+      for (const source of this.sourceManager.listEnabledSources()) {
+        metadata = await this.indexManager.getPackageFromSource(username, name, source.name);
+        if (metadata) {
+          origin = source.name;
+          break;
+        }
+      }
+    }
+    if (!metadata) return null;
+
+    const details: PackageVersionInfo[] = [];
+    for (const version of sortVersions(metadata.versions.map((v) => v.version)).reverse()) {
+      const entry = metadata.versions.find((v) => v.version === version);
+      if (!entry) continue;
+      const cached = this.packageStore.hasPackage(username, name, version);
+      const size = cached
+        ? await fs.fileSize(this.packageStore.getPackagePath(username, name, version))
+        : 0;
+      details.push({ ...entry, cached, size });
+    }
+
+    const cachedDetails = details.filter((d) => d.cached);
+    return {
+      name: `${username}/${name}`,
+      versions: details.length,
+      latest: latestVersion(metadata.versions),
+      cachedVersions: cachedDetails.length,
+      cacheSize: cachedDetails.reduce((total, d) => total + d.size, 0),
+      origin,
+      details,
+    };
+  }
+
+  /** Get the size of every cached archive, keyed by package name and version */
+  private async collectCacheSizes(): Promise<Map<string, Map<string, number>>> {
+    const sizes = new Map<string, Map<string, number>>();
+    for (const pkg of await this.packageStore.listCached()) {
+      const name = `${pkg.username}/${pkg.name}`;
+      const versions = sizes.get(name) ?? new Map<string, number>();
+      versions.set(
+        pkg.version,
+        await fs.fileSize(this.packageStore.getPackagePath(pkg.username, pkg.name, pkg.version)),
+      );
+      sizes.set(name, versions);
+    }
+    return sizes;
+  }
+
   /** List all configured sources */
   listSources(): MirrorSource[] {
     return this.sourceManager.listSources();
@@ -282,4 +917,19 @@ export class Registry {
   }
 }
 
+/** Highest non-yanked version (null if every version is yanked) */
+function latestVersion(versions: PackageVersion[]): string | null {
+  const available = versions.filter((v) => !v.yanked).map((v) => v.version);
+  return sortVersions(available).at(-1) ?? null;
+}
+
+/** Sum the values of a map */
+function sumValues(map: Map<string, number>): number {
+  let total = 0;
+  for (const value of map.values()) {
+    total += value;
+  }
+  return total;
+}
+
 export default Registry;
@@ -0,0 +1,172 @@
+/**
+ * Package search index
+ *
+ * Indexes package names, usernames, and the description and keywords from the
+ * moon.mod.json of each package's newest cached archive. Documents are stored
+ * in a JSON file in the data directory and refreshed incrementally: a package
+ * is only re-read when its newest cached version changes. The file is re-read
+ * when another process (e.g. a CLI command next to the server) rewrites it.
+ */
+
+import { existsSync } from "node:fs";
+import { stat } from "node:fs/promises";
+import fs from "../utils/fs.ts";
+import logger from "../utils/logger.ts";
+import type IndexManager from "./index-manager.ts";
+import { readModuleManifest } from "./module.ts";
+import type PackageStore from "./package-store.ts";
+import { sortVersions } from "./semver.ts";
+import type { SearchDocument, SearchResult } from "./types.ts";
+import { parsePackageId } from "./types.ts";
+
+/** Options for a search */
+export interface SearchOptions {
+  /** Maximum number of results (default: 20, Infinity for every match) */
+  limit?: number;
+}
+
+export class SearchIndex {
+  private path: string;
+  private indexManager: IndexManager;
+  private packageStore: PackageStore;
+  private documents: Map<string, SearchDocument> | null = null;
+  private loadedMtime = 0;
+
+  constructor(path: string, indexManager: IndexManager, packageStore: PackageStore) {
+    this.path = path;
+    this.indexManager = indexManager;
+    this.packageStore = packageStore;
+  }
+
+  /** Check whether the index has been built */
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  /**
+   * Bring every served or cached package up to date and drop packages that
+   * are gone. Returns the number of packages (re)indexed.
+   */
+  async refresh(): Promise<number> {
+    const documents = await this.load();
+    const names = new Set(await this.indexManager.listPackages());
+    for (const pkg of await this.packageStore.listCached()) {
+      names.add(`${pkg.username}/${pkg.name}`);
+    }
+
+    for (const name of Array.from(documents.keys())) {
+      if (!names.has(name)) {
+        documents.delete(name);
+      }
+    }
+
+    return this.update(Array.from(names));
+  }
+
+  /** Re-index the given packages where their newest cached version changed */
+  async update(names: string[]): Promise<number> {
+    const documents = await this.load();
+    let updated = 0;
+
+    for (const name of names) {
+      const pkgId = parsePackageId(name);
+      if (!pkgId) continue;
+
+      const cached = await this.packageStore.listCachedVersions(pkgId.username, pkgId.name);
+      const version = sortVersions(cached).at(-1) ?? null;
+      const existing = documents.get(name);
+      if (existing && existing.version === version) continue;
+
+      const document: SearchDocument = { name, username: pkgId.username, keywords: [], version };
+      if (version) {
+        try {
+          const path = this.packageStore.getPackagePath(pkgId.username, pkgId.name, version);
+          const manifest = readModuleManifest(new Uint8Array(await Bun.file(path).arrayBuffer()));
+          document.description = manifest.description;
+          document.keywords = Array.isArray(manifest.keywords) ? manifest.keywords : [];
+        } catch (err) {
+          logger.debug(`Indexing ${name} without a manifest: ${err}`);
+        }
+      }
+
+      documents.set(name, document);
+      updated++;
+    }
+
+    await this.save();
+    return updated;
+  }
+
+  /** Find packages matching every term of the query, best matches first */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const results: SearchResult[] = [];
+    for (const document of (await this.load()).values()) {
+      let score = 0;
+      for (const term of terms) {
+        const termScore = scoreTerm(document, term);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) {
+        results.push({ ...document, score });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return results.slice(0, options.limit ?? 20);
+  }
+
+  /** Load documents, re-reading the file when it changed */
+  private async load(): Promise<Map<string, SearchDocument>> {
+    if (!existsSync(this.path)) {
+      this.documents ??= new Map();
+      return this.documents;
+    }
+
+    const { mtimeMs } = await stat(this.path);
+    if (!this.documents || mtimeMs !== this.loadedMtime) {
+      let documents = new Map<string, SearchDocument>();
+      try {
+        const stored = await fs.readJson<SearchDocument[]>(this.path);
+        documents = new Map(stored.map((d) => [d.name, d]));
+      } catch (err) {
+        logger.warn(`Rebuilding unreadable search index ${this.path}: ${err}`);
+      }
+      this.documents = documents;
+      this.loadedMtime = mtimeMs;
+    }
+    return this.documents;
+  }
+
+  /** Write documents to disk, sorted by name */
+  private async save(): Promise<void> {
+    const documents = Array.from(this.documents?.values() ?? []);
+    documents.sort((a, b) => a.name.localeCompare(b.name));
+    await fs.writeJson(this.path, documents);
+    this.loadedMtime = (await stat(this.path)).mtimeMs;
+  }
+}
+
+/** Score how well a single query term matches a document (0 = no match) */
+function scoreTerm(document: SearchDocument, term: string): number {
+  const pkgName = document.name.slice(document.username.length + 1).toLowerCase();
+  const username = document.username.toLowerCase();
+  const keywords = document.keywords.map((k) => k.toLowerCase());
+
+  if (pkgName === term || document.name.toLowerCase() === term) return 10;
+  if (keywords.includes(term)) return 6;
+  if (pkgName.includes(term)) return 5;
+  if (username === term) return 4;
+  if (keywords.some((k) => k.includes(term))) return 3;
+  if (username.includes(term)) return 2;
+  if (document.description?.toLowerCase().includes(term)) return 1;
+  return 0;
+}
+
+export default SearchIndex;
@@ -0,0 +1,302 @@
+/**
+ * Semantic versioning for package versions and dependency requirements
+ *
+ * Versions follow SemVer 2.0 precedence (prerelease tags sort before the release,
+ * build metadata is ignored). Requirements use the MoonBit/Cargo syntax: a bare
+ * version such as `0.4.6` means "compatible with" (`^0.4.6`), and `^`, `~`, `=`,
+ * `>`, `>=`, `<`, `<=` and `*` are supported. Comparators are combined with
+ * commas or whitespace, alternatives with `||`.
+ */
+
+/** A parsed semantic version */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+type Operator = "=" | ">" | ">=" | "<" | "<=";
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+/** A parsed version requirement: any comparator set may match */
+export type VersionRange = Comparator[][];
+
+const VERSION_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const PARTIAL_PATTERN =
+  /^v?(\d+|[*xX])(?:\.(\d+|[*xX]))?(?:\.(\d+|[*xX]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const COMPARATOR_PATTERN = /^(\^|~|=|>=|<=|>|<)?\s*(.+)$/;
+
+/** Parse a full version string (returns null if invalid) */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".").map(parseIdentifier) : [],
+    build: match[5] ? match[5].split(".") : [],
+  };
+}
+
+/** Check whether a string is a valid version */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/** Check whether a version has a prerelease tag */
+export function isPrerelease(version: string): boolean {
+  return (parseVersion(version)?.prerelease.length ?? 0) > 0;
+}
+
+/**
+ * Compare two versions by SemVer precedence.
+ * Unparseable versions sort before valid ones and are compared as strings.
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) {
+    if (va) return 1;
+    if (vb) return -1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return compareSemVer(va, vb);
+}
+
+/** Compare two parsed versions by SemVer precedence */
+function compareSemVer(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+
+  // A release has higher precedence than any of its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const pa = a.prerelease[i];
+    const pb = b.prerelease[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof pa === "number" && typeof pb === "number") return pa - pb;
+    if (typeof pa === "number") return -1;
+    if (typeof pb === "number") return 1;
+    return pa < pb ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/** Sort versions in ascending precedence (returns a new array) */
+export function sortVersions(versions: string[]): string[] {
+  return [...versions].sort(compareVersions);
+}
+
+/** Parse a version requirement (returns null if invalid) */
+export function parseRange(requirement: string): VersionRange | null {
+  const alternatives = requirement.split("||");
+  const range: VersionRange = [];
+
+  for (const alternative of alternatives) {
+    const comparators: Comparator[] = [];
+    const parts = alternative
+      .trim()
+      .replace(/(\^|~|=|>=|<=|>|<)\s+/g, "$1")
+      .split(/[\s,]+/)
+      .filter(Boolean);
+
+    if (parts.length === 0) {
+      comparators.push(...(expandComparator("", "*") ?? []));
+    }
+
+    for (const part of parts) {
+      const match = part.match(COMPARATOR_PATTERN);
+      if (!match) return null;
+      const expanded = expandComparator(match[1] ?? "", match[2]);
+      if (!expanded) return null;
+      comparators.push(...expanded);
+    }
+
+    range.push(comparators);
+  }
+
+  return range;
+}
+
+/** Check whether a string is a valid version requirement */
+export function isValidRange(requirement: string): boolean {
+  return parseRange(requirement) !== null;
+}
+
+/**
+ * Check whether a version satisfies a requirement.
+ * Prereleases only match when a comparator names a prerelease of the same
+ * major.minor.patch, so `^1.0.0` never selects `1.1.0-beta`.
+ */
+export function satisfies(version: string, requirement: string | VersionRange): boolean {
+  const parsed = parseVersion(version);
+  const range = typeof requirement === "string" ? parseRange(requirement) : requirement;
+  if (!parsed || !range) return false;
+
+  return range.some((comparators) => {
+    if (!comparators.every((c) => testComparator(parsed, c))) return false;
+    if (parsed.prerelease.length === 0) return true;
+
+    return comparators.some(
+      (c) =>
+        c.version.prerelease.length > 0 &&
+        c.version.major === parsed.major &&
+        c.version.minor === parsed.minor &&
+        c.version.patch === parsed.patch,
+    );
+  });
+}
+
+/** Get all versions satisfying a requirement, in ascending order */
+export function filterSatisfying(versions: string[], requirement: string): string[] {
+  const range = parseRange(requirement);
+  if (!range) return [];
+  return sortVersions(versions.filter((v) => satisfies(v, range)));
+}
+
+/** Get the highest version satisfying a requirement */
+export function maxSatisfying(versions: string[], requirement: string): string | null {
+  return filterSatisfying(versions, requirement).at(-1) ?? null;
+}
+
+/** Parse a prerelease identifier, keeping numeric identifiers as numbers */
+function parseIdentifier(id: string): string | number {
+  return /^\d+$/.test(id) ? Number(id) : id;
+}
+
+/** Expand a single (possibly partial) comparator into primitive comparators */
+function expandComparator(operator: string, version: string): Comparator[] | null {
+  const match = version.match(PARTIAL_PATTERN);
+  if (!match) return null;
+
+  const isWild = (part: string | undefined) => part === undefined || /^[*xX]$/.test(part);
+  const major = isWild(match[1]) ? null : Number(match[1]);
+  const minor = major === null || isWild(match[2]) ? null : Number(match[2]);
+  const patch = minor === null || isWild(match[3]) ? null : Number(match[3]);
+  const prerelease = patch !== null && match[4] ? match[4].split(".").map(parseIdentifier) : [];
+
+  const v = (maj: number, min: number, pat: number, pre: (string | number)[] = []): SemVer => ({
+    major: maj,
+    minor: min,
+    patch: pat,
+    prerelease: pre,
+    build: [],
+  });
+  const lower = v(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+
+  // `*` matches everything
+  if (major === null) {
+    return operator === "<" || operator === ">" ? null : [{ operator: ">=", version: v(0, 0, 0) }];
+  }
+
+  // Exclusive upper bound for a partial version: 1 -> 2.0.0, 1.2 -> 1.3.0
+  const nextPartial =
+    minor === null ? v(major + 1, 0, 0) : patch === null ? v(major, minor + 1, 0) : null;
+
+  switch (operator) {
+    case "":
+    case "^": {
+      // Caret: the left-most non-zero component must not change
+      let upper: SemVer;
+      if (major > 0 || minor === null) {
+        upper = v(major + 1, 0, 0);
+      } else if (minor > 0 || patch === null) {
+        upper = v(0, minor + 1, 0);
+      } else {
+        upper = v(0, 0, patch + 1);
+      }
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: withPrereleaseFloor(upper) },
+      ];
+    }
+    case "~": {
+      const upper = minor === null ? v(major + 1, 0, 0) : v(major, minor + 1, 0);
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: withPrereleaseFloor(upper) },
+      ];
+    }
+    case "=":
+      if (nextPartial) {
+        return [
+          { operator: ">=", version: lower },
+          { operator: "<", version: withPrereleaseFloor(nextPartial) },
+        ];
+      }
+      return [{ operator: "=", version: lower }];
+    case ">":
+      return nextPartial
+        ? [{ operator: ">=", version: nextPartial }]
+        : [{ operator: ">", version: lower }];
+    case ">=":
+      return [{ operator: ">=", version: lower }];
+    case "<":
+      return [{ operator: "<", version: withPrereleaseFloor(lower) }];
+    case "<=":
+      return nextPartial
+        ? [{ operator: "<", version: withPrereleaseFloor(nextPartial) }]
+        : [{ operator: "<=", version: lower }];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn an exclusive upper bound into the lowest possible prerelease of that
+ * version, so `<2.0.0` also excludes `2.0.0-alpha`.
+ */
+function withPrereleaseFloor(version: SemVer): SemVer {
+  return version.prerelease.length > 0 ? version : { ...version, prerelease: [0] };
+}
+
+/** Test a version against a primitive comparator */
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareSemVer(version, comparator.version);
+  switch (comparator.operator) {
+    case "=":
+      return cmp === 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+  }
+}
+
+export default {
+  parseVersion,
+  isValidVersion,
+  isPrerelease,
+  compareVersions,
+  sortVersions,
+  parseRange,
+  isValidRange,
+  satisfies,
+  filterSatisfying,
+  maxSatisfying,
+};
@@ -6,6 +6,7 @@
  * sources array format.
  */
 
+import { resolveEnvVars } from "../utils/env.ts";
 import logger from "../utils/logger.ts";
 import type { MirrorSource, RegistryConfig } from "./types.ts";
 
@@ -116,15 +117,15 @@ export class SourceManager {
         case "bearer":
           if (source.auth.token) {
             // Support environment variable references like ${VAR}
-            const token = this.resolveEnvVar(source.auth.token);
+            const token = resolveEnvVars(source.auth.token);
             headers.Authorization = `Bearer ${token}`;
           }
           break;
 
         case "basic":
           if (source.auth.username && source.auth.password) {
-            const username = this.resolveEnvVar(source.auth.username);
-            const password = this.resolveEnvVar(source.auth.password);
+            const username = resolveEnvVars(source.auth.username);
+            const password = resolveEnvVars(source.auth.password);
             const credentials = Buffer.from(`${username}:${password}`).toString("base64");
             headers.Authorization = `Basic ${credentials}`;
           }
@@ -138,13 +139,6 @@ export class SourceManager {
 
     return options;
   }
-
-  /** Resolve environment variable references like ${VAR} */
-  private resolveEnvVar(value: string): string {
-    return value.replace(/\$\{([^}]+)\}/g, (_, varName) => {
-      return process.env[varName] ?? "";
-    });
-  }
 }
 
 export default SourceManager;
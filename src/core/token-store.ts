@@ -0,0 +1,142 @@
+/**
+ * API token store
+ *
+ * Tokens are random secrets shown once on creation; only their SHA256 is kept
+ * in `tokens.json`. The file is re-read when it changes, so tokens created or
+ * revoked with the CLI apply to a running server.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { chmod, stat } from "node:fs/promises";
+import fs from "../utils/fs.ts";
+import { RegistryError } from "./errors.ts";
+import type { ApiToken, TokenScope } from "./types.ts";
+
+/** Every token scope */
+export const TOKEN_SCOPES: TokenScope[] = ["read-index", "download", "publish", "admin"];
+
+/** Prefix of generated tokens, to make them recognizable in config files and logs */
+export const TOKEN_PREFIX = "mbr_";
+
+/** Check whether a token grants a scope */
+export function hasScope(token: { scopes: TokenScope[] }, scope: TokenScope): boolean {
+  return token.scopes.includes("admin") || token.scopes.includes(scope);
+}
+
+/** Parse a comma-separated scope list */
+export function parseScopes(value: string): TokenScope[] {
+  const scopes = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  for (const scope of scopes) {
+    if (!TOKEN_SCOPES.includes(scope as TokenScope)) {
+      throw new RegistryError(
+        `Invalid token scope: ${scope} (expected ${TOKEN_SCOPES.join(", ")})`,
+        "invalid",
+      );
+    }
+  }
+  if (scopes.length === 0) {
+    throw new RegistryError("A token needs at least one scope", "invalid");
+  }
+  return Array.from(new Set(scopes)) as TokenScope[];
+}
+
+/** Hash a token for storage and lookup */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class TokenStore {
+  private path: string;
+  private tokens: ApiToken[] | null = null;
+  private loadedMtime = 0;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /** Create a token, returning the secret (only available now) and its record */
+  async create(
+    name: string,
+    scopes: TokenScope[],
+    options: { expiresAt?: Date; groups?: string[] } = {},
+  ): Promise<{ token: string; record: ApiToken }> {
+    const tokens = await this.load();
+    if (tokens.some((t) => t.name === name)) {
+      throw new RegistryError(`A token named '${name}' already exists`, "conflict");
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const record: ApiToken = {
+      id: randomBytes(4).toString("hex"),
+      name,
+      scopes,
+      hash: hashToken(token),
+      created_at: new Date().toISOString(),
+      expires_at: options.expiresAt?.toISOString(),
+      groups: options.groups?.length ? options.groups : undefined,
+    };
+
+    await this.save([...tokens, record]);
+    return { token, record };
+  }
+
+  /** List token records */
+  async list(): Promise<ApiToken[]> {
+    return this.load();
+  }
+
+  /** Find a token record by id or name */
+  async find(idOrName: string): Promise<ApiToken | null> {
+    const tokens = await this.load();
+    return tokens.find((t) => t.id === idOrName) ?? tokens.find((t) => t.name === idOrName) ?? null;
+  }
+
+  /** Revoke a token by id or name */
+  async revoke(idOrName: string): Promise<ApiToken> {
+    const record = await this.find(idOrName);
+    if (!record) {
+      throw new RegistryError(`Token not found: ${idOrName}`, "not_found");
+    }
+
+    await this.save((await this.load()).filter((t) => t !== record));
+    return record;
+  }
+
+  /** Find the record of a token (null if unknown or expired) */
+  async authenticate(token: string): Promise<ApiToken | null> {
+    const hash = hashToken(token);
+    const record = (await this.load()).find((t) => t.hash === hash);
+    if (!record) return null;
+    if (record.expires_at && Date.parse(record.expires_at) <= Date.now()) return null;
+    return record;
+  }
+
+  /** Load tokens, re-reading the file when it changed */
+  private async load(): Promise<ApiToken[]> {
+    if (!fs.exists(this.path)) {
+      this.tokens = null;
+      return [];
+    }
+
+    const { mtimeMs } = await stat(this.path);
+    if (!this.tokens || mtimeMs !== this.loadedMtime) {
+      this.tokens = await fs.readJson<ApiToken[]>(this.path);
+      this.loadedMtime = mtimeMs;
+    }
+    return this.tokens;
+  }
+
+  /** Save tokens, readable only by the owner */
+  private async save(tokens: ApiToken[]): Promise<void> {
+    await fs.writeJson(this.path, tokens);
+    await chmod(this.path, 0o600);
+    this.tokens = tokens;
+    this.loadedMtime = (await stat(this.path)).mtimeMs;
+  }
+}
+
+export default TokenStore;
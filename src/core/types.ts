@@ -8,6 +8,8 @@ export interface PackageVersion {
   checksum: string;
   deps: Record<string, string>;
   yanked?: boolean;
+  /** Publish time (ISO 8601), when the index records it */
+  created_at?: string;
 }
 
 /** Package entry in the index JSONL file */
@@ -17,6 +19,7 @@ export interface PackageEntry {
   checksum: string;
   deps: Record<string, string>;
   yanked?: boolean;
+  created_at?: string;
 }
 
 /** Full package metadata */
@@ -26,6 +29,67 @@ export interface PackageMetadata {
   versions: PackageVersion[];
 }
 
+/** Module manifest (moon.mod.json) bundled in a package archive */
+export interface ModuleManifest {
+  name: string;
+  version: string;
+  deps?: Record<string, string>;
+  readme?: string;
+  repository?: string;
+  license?: string;
+  keywords?: string[];
+  description?: string;
+}
+
+/** A registry dependency declared in a local project's moon.mod.json */
+export interface ProjectDependency {
+  name: string;
+  requirement: string;
+  /** Module (or directory, for unnamed modules) declaring the dependency */
+  from: string;
+}
+
+/** Permission granted to an API token ("admin" grants every scope) */
+export type TokenScope = "read-index" | "download" | "publish" | "admin";
+
+/** API token record; only the hash of the token is stored */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  /** SHA256 of the token */
+  hash: string;
+  created_at: string;
+  expires_at?: string;
+  /** Groups the token belongs to, for ACL rules */
+  groups?: string[];
+}
+
+/** Identity of an authenticated request */
+export type TokenIdentity = Pick<ApiToken, "id" | "name" | "scopes" | "groups">;
+
+/** Action on a package governed by ACL rules */
+export type AclPermission = "read" | "publish" | "yank";
+
+/** ACL rule granting tokens or groups permissions on packages */
+export interface AclRule {
+  /** Token names or ids ("*" for any token) */
+  tokens?: string[];
+  /** Token groups */
+  groups?: string[];
+  /** Globs over `user/pkg`, as in mirror patterns */
+  packages: string[];
+  permissions: AclPermission[];
+}
+
+/** Outcome of an ACL check, with the reason for `acl check` */
+export interface AclDecision {
+  allowed: boolean;
+  reason: string;
+  /** Index of the deciding rule in `acl` */
+  rule?: number;
+}
+
 /** Source type for different registry implementations */
 export type SourceType = "mooncakes" | "moonbit-registry" | "custom";
 
@@ -75,19 +139,35 @@ export interface RegistryConfig {
   mirror: {
     auto_sync: boolean;
     sync_interval: string;
-    packages: string[];
+    packages: MirrorPattern[];
+    /** Maximum number of parallel downloads */
+    concurrency: number;
+    /** Retries for a download failing with a server or network error */
+    retries: number;
+    /** Abort a download when no data arrives for this long (e.g., "60s", "5m") */
+    timeout: string;
   };
+  /** Cache retention policies applied by `gc` */
+  cache?: CachePolicy;
   server: {
     host: string;
     port: number;
     base_url: string;
     smart_http?: SmartHttpConfig;
+    /** Bearer token required to publish packages (supports ${VAR} references) */
+    publish_token?: string;
+    /** Require API tokens to read the index and download packages */
+    require_auth?: boolean;
+    /** Origins allowed by CORS (default: any) */
+    cors_origins?: string[];
   };
   git: {
     remote_url: string;
     branch: string;
     auto_push: boolean;
   };
+  /** Per-namespace access rules */
+  acl?: AclRule[];
 }
 
 /** Default configuration values */
@@ -105,6 +185,9 @@ export const DEFAULT_CONFIG: RegistryConfig = {
     auto_sync: false,
     sync_interval: "1h",
     packages: [],
+    concurrency: 4,
+    retries: 3,
+    timeout: "60s",
   },
   server: {
     host: "0.0.0.0",
@@ -121,38 +204,340 @@ export const DEFAULT_CONFIG: RegistryConfig = {
   },
 };
 
+/** Filters selecting which versions of a matched package are mirrored */
+export interface VersionFilter {
+  /** Only the N newest versions */
+  latest?: number;
+  /** Only versions published on or after this date (ISO 8601) */
+  since?: string;
+  /** Skip prerelease versions */
+  skip_prerelease?: boolean;
+}
+
+/** Mirror pattern with its own version filters (`mirror.packages` table entry) */
+export interface MirrorPackageRule extends VersionFilter {
+  /** Glob pattern, optionally with a version requirement (`user/pkg@^0.4`) */
+  pattern: string;
+}
+
+/** Mirror pattern: a plain glob string or a rule with filters */
+export type MirrorPattern = string | MirrorPackageRule;
+
 /** Mirror options for the mirror command */
 export interface MirrorOptions {
-  patterns: string[];
+  patterns: MirrorPattern[];
   full: boolean;
   strict: boolean;
   quiet: boolean;
+  /** Default version filters for patterns that don't set their own */
+  filter?: VersionFilter;
+  /** Maximum number of parallel downloads (default: `mirror.concurrency`) */
+  concurrency?: number;
   /** Name of source to mirror from (uses default if not specified) */
   source?: string;
+  /** Skip refreshing the source index (when the caller already synced it) */
+  skipIndexSync?: boolean;
+  /**
+   * MoonBit project directory: mirror the versions its moon.mod.json deps
+   * resolve to instead of the patterns
+   */
+  project?: string;
+}
+
+/** A package version to download in a mirror plan */
+export interface MirrorPlanItem {
+  name: string;
+  version: string;
+  checksum: string;
+  /** Source the archive is downloaded from */
+  source: string;
+  /** Archive size in bytes from the source's Content-Length (null if unknown or not estimated) */
+  size: number | null;
+}
+
+/** Mirror plan: what `mirror` would download (`--dry-run`, `--plan-out`, `--from-plan`) */
+export interface MirrorPlan {
+  /** Plan file format version */
+  format: 1;
+  created_at: string;
+  source: string;
+  /** Resolved packages, merged into the served index when the plan is applied */
+  packages: string[];
+  download: MirrorPlanItem[];
+  /** Selected versions that are already cached */
+  cached: { name: string; version: string }[];
+  /** Dependencies not matching the patterns, with the packages requiring them */
+  skipped: { name: string; required_by: string[]; cached: boolean }[];
+  /** Resolved packages missing from the source index */
+  missing: string[];
+  /** Sum of the known download sizes (null when sizes were not estimated) */
+  total_bytes: number | null;
+}
+
+/** A package version in an offline bundle */
+export interface BundlePackage {
+  name: string;
+  version: string;
+  /** SHA256 of the archive */
+  checksum: string;
+  size: number;
+}
+
+/** Offline bundle manifest (`bundle.json`) */
+export interface BundleManifest {
+  /** Bundle format version */
+  format: 1;
+  created_at: string;
+  /** Name of the exporting registry */
+  registry: string;
+  /** Served index commit of the exporting registry */
+  index_commit: string | null;
+  /** Index commit a delta bundle was diffed from (null for full bundles) */
+  base: string | null;
+  packages: BundlePackage[];
+  /** Index lines changed without a new archive, such as yanked versions (delta bundles) */
+  updates: { name: string; version: string; checksum: string }[];
+}
+
+/** Index commit of the last imported bundle */
+export interface BundleState {
+  registry: string;
+  index_commit: string;
+  imported_at: string;
+}
+
+/** Package versions changed in the served index since a revision */
+export interface IndexDelta {
+  /** Commit the delta starts from */
+  base: string;
+  /** New versions (or versions whose checksum changed), by package */
+  added: Map<string, Set<string>>;
+  /** Versions whose index line changed for the same archive, by package */
+  updated: Map<string, Set<string>>;
+}
+
+/** Result of `bundle export` */
+export interface BundleExportReport {
+  manifest: BundleManifest;
+  /** Bundle file size in bytes */
+  size: number;
+  /** Selected versions left out because their archive could not be obtained */
+  missing: string[];
+}
+
+/** Result of `bundle import` */
+export interface BundleImportReport {
+  manifest: BundleManifest;
+  /** Archives written to the package store */
+  imported: number;
+  /** Archives already present with the same checksum */
+  skipped: number;
+  /** Package index files changed in the served index */
+  index_changed: number;
+}
+
+/** A dependency of one package on another, for one version requirement */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  requirement: string;
 }
 
 /** Result of dependency resolution */
 export interface DependencyResolution {
   /** Packages to mirror (matching patterns + deps) */
   packages: Set<string>;
+  /** Packages matched directly by the patterns */
+  matched: Set<string>;
+  /** Dependency edges walked while resolving (empty in strict mode) */
+  edges: DependencyEdge[];
+  /** Versions to mirror for each package */
+  versions: Map<string, Set<string>>;
   /** Dependencies that were skipped (not matching patterns) */
   skipped: Map<string, string[]>;
-  /** Packages that are already cached */
+  /** Packages whose selected versions are all cached */
   cached: Set<string>;
 }
 
+/** A package version that depends on another package */
+export interface ReverseDependency {
+  name: string;
+  version: string;
+  /** Version requirement on the dependency */
+  requirement: string;
+  /** "index" for the served index, otherwise the source index it was found in */
+  source: string;
+  /** 1 for direct dependents, 2+ for transitive ones */
+  depth: number;
+  /** Package this version depends on when found transitively */
+  via?: string;
+}
+
+/** How a package ended up in a dependency graph */
+export type GraphNodeKind = "matched" | "transitive" | "skipped";
+
+/** Package in a resolved dependency graph */
+export interface DependencyGraphNode {
+  name: string;
+  kind: GraphNodeKind;
+  /** Whether every selected version (any version for skipped packages) is cached */
+  cached: boolean;
+  /** Selected versions (empty for skipped packages) */
+  versions: string[];
+}
+
+/** Resolved dependency graph (edges merged per package pair) */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: { from: string; to: string; requirements: string[] }[];
+}
+
+/** Cache retention policies (`[cache]` config section) */
+export interface CachePolicy {
+  /** Maximum total size of cached archives (e.g., "10GB"); least recently used go first */
+  max_size?: string;
+  /** Keep only the N newest cached versions of each package */
+  keep_versions?: number;
+  /** Evict versions not downloaded for this long (e.g., "90d") */
+  max_age?: string;
+  /** Evict packages that no longer match `mirror.packages` */
+  prune_unmatched?: boolean;
+}
+
+/** Why a cached version was evicted */
+export type GcReason = "unmatched" | "old_version" | "expired" | "max_size";
+
+/** A cached version removed (or to be removed) by `gc` */
+export interface GcRemoval {
+  name: string;
+  version: string;
+  size: number;
+  reason: GcReason;
+}
+
+/** Result of a `gc` run */
+export interface GcReport {
+  dry_run: boolean;
+  removed: GcRemoval[];
+  /** Bytes freed by the removals */
+  freed: number;
+  /** Cache size before and after the run */
+  size_before: number;
+  size_after: number;
+  /** Versions kept because no enabled source can provide them again */
+  protected: number;
+}
+
+/** Problem found while verifying the package cache */
+export interface VerifyIssue {
+  /** mismatch: checksum differs; orphan: no index entry; missing: no cached archive */
+  kind: "mismatch" | "orphan" | "missing";
+  name: string;
+  version: string;
+  expected?: string;
+  actual?: string;
+  /** Set when a repair was attempted */
+  repaired?: boolean;
+  error?: string;
+}
+
+/** Result of verifying the package cache */
+export interface VerifyReport {
+  /** Number of cached archives checked */
+  checked: number;
+  /** Cached archives matching their index checksum */
+  ok: number;
+  issues: VerifyIssue[];
+}
+
+/** Index and cache breakdown of a single package */
+export interface PackageStats {
+  name: string;
+  /** Versions listed in the served index */
+  versions: number;
+  /** Highest non-yanked version in the served index */
+  latest: string | null;
+  cachedVersions: number;
+  /** Total size of the cached archives in bytes */
+  cacheSize: number;
+}
+
+/** A package version with its cache state (for `info`) */
+export interface PackageVersionInfo extends PackageVersion {
+  cached: boolean;
+  /** Size of the cached archive in bytes (0 when not cached) */
+  size: number;
+}
+
+/** Package details with per-version cache state */
+export interface PackageInfo extends PackageStats {
+  /** Where the metadata came from: "index" for the served index, otherwise a source name */
+  origin: string;
+  details: PackageVersionInfo[];
+}
+
+/** Searchable fields of a package */
+export interface SearchDocument {
+  name: string;
+  username: string;
+  description?: string;
+  keywords: string[];
+  /** Cached version whose moon.mod.json was indexed (null if no archive is cached) */
+  version: string | null;
+}
+
+/** A package matching a search query */
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
+/** Package count and sync state of a configured source */
+export interface SourceStats {
+  name: string;
+  enabled: boolean;
+  /** Packages in the local copy of the source index */
+  packages: number;
+  /** Last successful index sync (ISO 8601) */
+  lastSync: string | null;
+}
+
+/** Registry statistics */
+export interface RegistryStats {
+  packages: number;
+  cachedVersions: number;
+  cacheSize: number;
+  sources: SourceStats[];
+  /** Packages using the most cache space, largest first */
+  largest: PackageStats[];
+  index: {
+    commit: string | null;
+    committedAt: string | null;
+    /** Most recent successful sync of any source */
+    lastSync: string | null;
+  };
+}
+
 /** Package identifier (username/name) */
 export interface PackageId {
   username: string;
   name: string;
 }
 
+/**
+ * Check that a username or package name is usable as a single path segment
+ * (names come from remote listings, bundles and URLs)
+ */
+export function isValidNameSegment(segment: string): boolean {
+  return segment.length > 0 && segment !== "." && segment !== ".." && !/[/\\\0]/.test(segment);
+}
+
 /** Parse a package identifier string */
 export function parsePackageId(id: string): PackageId | null {
+  if (typeof id !== "string") return null;
   const parts = id.split("/");
   if (parts.length !== 2) return null;
   const [username, name] = parts;
-  if (!username || !name) return null;
+  if (!isValidNameSegment(username) || !isValidNameSegment(name)) return null;
   return { username, name };
 }
 
@@ -173,3 +558,31 @@ export interface PackageVersionId extends PackageId {
 export function formatPackageVersionId(id: PackageVersionId): string {
   return `${id.username}/${id.name}@${id.version}`;
 }
+
+/** Parse a package version identifier string (username/name@version) */
+export function parsePackageVersionId(id: string): PackageVersionId | null {
+  const at = id.lastIndexOf("@");
+  if (at <= 0) return null;
+  const pkgId = parsePackageId(id.slice(0, at));
+  const version = id.slice(at + 1);
+  if (!pkgId || !version) return null;
+  return { ...pkgId, version };
+}
+
+/** Split a mirror pattern into its glob and optional version requirement (`user/pkg@^0.4`) */
+export function parseMirrorPattern(pattern: string): { glob: string; requirement?: string } {
+  const at = pattern.indexOf("@");
+  if (at < 0) return { glob: pattern };
+  return { glob: pattern.slice(0, at), requirement: pattern.slice(at + 1) };
+}
+
+/** Format a mirror pattern for display */
+export function formatMirrorPattern(pattern: MirrorPattern): string {
+  if (typeof pattern === "string") return pattern;
+
+  const filters: string[] = [];
+  if (pattern.latest !== undefined) filters.push(`latest ${pattern.latest}`);
+  if (pattern.since) filters.push(`since ${pattern.since}`);
+  if (pattern.skip_prerelease) filters.push("no prereleases");
+  return filters.length > 0 ? `${pattern.pattern} (${filters.join(", ")})` : pattern.pattern;
+}
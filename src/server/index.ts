@@ -4,15 +4,28 @@
  * Serves package downloads and git index via Dumb HTTP protocol.
  */
 
+import type { AutoSync } from "../core/auto-sync.ts";
 import type { Registry } from "../core/registry.ts";
 import logger from "../utils/logger.ts";
-import { compose, cors, errorHandler, requestLogger } from "./middleware.ts";
+import {
+  authenticate,
+  compose,
+  createCors,
+  errorHandler,
+  getIdentity,
+  requestLogger,
+} from "./middleware.ts";
+import createApiRoutes from "./routes/api.ts";
 import createGitRoutes from "./routes/git.ts";
 import createPackageRoutes from "./routes/packages.ts";
+import createPublishRoutes from "./routes/publish.ts";
+import createUiRoutes, { wantsHtml } from "./routes/ui.ts";
 
 export interface ServerOptions {
   host?: string;
   port?: number;
+  /** Background auto-sync whose status is exposed at /api/sync/status */
+  autoSync?: AutoSync;
 }
 
 export function createServer(registry: Registry, options: ServerOptions = {}) {
@@ -23,6 +36,9 @@ export function createServer(registry: Registry, options: ServerOptions = {}) {
     smartHttp: registry.config.server.smart_http,
   });
   const packageRoutes = createPackageRoutes(registry);
+  const publishRoutes = createPublishRoutes(registry);
+  const apiRoutes = createApiRoutes(registry);
+  const uiRoutes = createUiRoutes(registry);
 
   /** Main request handler */
   async function handleRequest(request: Request): Promise<Response> {
@@ -34,6 +50,12 @@ export function createServer(registry: Registry, options: ServerOptions = {}) {
       return new Response("OK", { status: 200 });
     }
 
+    // HTML package browser (browsers ask for text/html; API clients get JSON at /)
+    if ((pathname === "/" && wantsHtml(request)) || pathname.startsWith("/packages/")) {
+      const response = await uiRoutes(request, pathname);
+      if (response) return response;
+    }
+
     // API info
     if (pathname === "/" || pathname === "/api") {
       return new Response(
@@ -42,8 +64,17 @@ export function createServer(registry: Registry, options: ServerOptions = {}) {
           version: "0.1.0",
           endpoints: {
             git: "/git/index",
+            browser: "/ (Accept: text/html), /packages/{username}/{package}[/{version}]",
             packages: "/user/{username}/{package}/{version}.zip",
+            package_list: "/api/packages?pattern={glob}&page={n}&per_page={n}",
+            package_metadata: "/api/packages/{username}/{package}[/{version}]",
+            dependents: "/api/packages/{username}/{package}/dependents?transitive=true",
+            search: "/api/search?q={query}",
+            publish: "POST /api/publish",
+            yank: "POST /api/packages/{username}/{package}/{version}/(yank|unyank)",
             health: "/health",
+            sync_status: "/api/sync/status",
+            stats: "/api/stats",
           },
         }),
         {
@@ -52,12 +83,35 @@ export function createServer(registry: Registry, options: ServerOptions = {}) {
       );
     }
 
+    // Auto-sync status
+    if (pathname === "/api/sync/status") {
+      const status = options.autoSync?.getStatus() ?? { enabled: false };
+      return new Response(JSON.stringify(status, null, 2), {
+        headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+      });
+    }
+
+    // Registry statistics
+    if (pathname === "/api/stats") {
+      const stats = await registry.getStats({ identity: getIdentity(request) });
+      return new Response(JSON.stringify(stats, null, 2), {
+        headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+      });
+    }
+
     // Git index routes
     if (pathname.startsWith("/git/index")) {
       const response = await gitRoutes(request, pathname);
       if (response) return response;
     }
 
+    // Publish and metadata API routes
+    if (pathname.startsWith("/api/")) {
+      const response =
+        (await publishRoutes(request, pathname)) ?? (await apiRoutes(request, pathname));
+      if (response) return response;
+    }
+
     // Package routes
     if (pathname.startsWith("/user/")) {
       const response = await packageRoutes(request, pathname);
@@ -69,7 +123,12 @@ export function createServer(registry: Registry, options: ServerOptions = {}) {
   }
 
   // Apply middleware
-  const middleware = compose(errorHandler, cors, requestLogger);
+  const middleware = compose(
+    errorHandler,
+    createCors(registry.config.server.cors_origins),
+    requestLogger,
+    authenticate(registry),
+  );
   const handler = middleware(handleRequest);
 
   return {
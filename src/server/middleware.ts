@@ -2,10 +2,18 @@
  * Server middleware utilities
  */
 
+import { RegistryError } from "../core/errors.ts";
+import type { Registry } from "../core/registry.ts";
+import { hasScope } from "../core/token-store.ts";
+import type { TokenIdentity, TokenScope } from "../core/types.ts";
+import { isValidNameSegment } from "../core/types.ts";
 import logger from "../utils/logger.ts";
 
 export type Handler = (request: Request) => Response | Promise<Response>;
 
+/** Identities of authenticated requests */
+const identities = new WeakMap<Request, TokenIdentity>();
+
 /** Log requests */
 export function requestLogger(handler: Handler): Handler {
   return async (request: Request) => {
@@ -27,26 +35,38 @@ export function requestLogger(handler: Handler): Handler {
   };
 }
 
-/** Add CORS headers */
-export function cors(handler: Handler): Handler {
-  return async (request: Request) => {
+/** Add CORS headers, allowing any origin or only the listed ones */
+export function createCors(allowedOrigins: string[] = ["*"]): (handler: Handler) => Handler {
+  const anyOrigin = allowedOrigins.includes("*");
+
+  /** The Access-Control-Allow-Origin value for a request (null when not allowed) */
+  const allowOrigin = (request: Request): string | null => {
+    if (anyOrigin) return "*";
+    const origin = request.headers.get("Origin");
+    return origin && allowedOrigins.includes(origin) ? origin : null;
+  };
+
+  return (handler: Handler) => async (request: Request) => {
+    const origin = allowOrigin(request);
+
     // Handle preflight
     if (request.method === "OPTIONS") {
-      return new Response(null, {
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type",
-          "Access-Control-Max-Age": "86400",
-        },
+      const headers = new Headers({
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Max-Age": "86400",
       });
+      if (origin) headers.set("Access-Control-Allow-Origin", origin);
+      if (!anyOrigin) headers.set("Vary", "Origin");
+      return new Response(null, { headers });
     }
 
     const response = await handler(request);
 
     // Add CORS headers to response
     const headers = new Headers(response.headers);
-    headers.set("Access-Control-Allow-Origin", "*");
+    if (origin) headers.set("Access-Control-Allow-Origin", origin);
+    if (!anyOrigin) headers.append("Vary", "Origin");
 
     return new Response(response.body, {
       status: response.status,
@@ -56,6 +76,152 @@ export function cors(handler: Handler): Handler {
   };
 }
 
+/** Add CORS headers allowing any origin */
+export const cors = createCors();
+
+/**
+ * Get the token from an `Authorization` header: a Bearer token, or the
+ * password of Basic credentials (how git clients send it)
+ */
+export function getRequestToken(request: Request): string | null {
+  const header = request.headers.get("Authorization") ?? "";
+  const bearer = header.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return bearer[1].trim();
+
+  const basic = header.match(/^Basic\s+(.+)$/i);
+  if (basic) {
+    const credentials = Buffer.from(basic[1].trim(), "base64").toString();
+    const separator = credentials.indexOf(":");
+    return separator >= 0 ? credentials.slice(separator + 1) || null : null;
+  }
+  return null;
+}
+
+/** Get the identity of an authenticated request (set by `authenticate`) */
+export function getIdentity(request: Request): TokenIdentity | null {
+  return identities.get(request) ?? null;
+}
+
+/**
+ * Scope a request needs: publishing and yanking need `publish` (checked by
+ * the publish routes), packages need `download`, and everything else but the
+ * health check reads the index
+ */
+export function requiredScope(request: Request): TokenScope | null {
+  const { pathname } = new URL(request.url);
+  if (pathname === "/health") return null;
+  if (
+    pathname === "/api/publish" ||
+    (request.method === "POST" &&
+      /^\/api\/packages\/[^/]+\/[^/]+\/[^/]+\/(yank|unyank)$/.test(pathname))
+  ) {
+    return "publish";
+  }
+  if (pathname.startsWith("/user/")) return "download";
+  return "read-index";
+}
+
+/**
+ * Decode percent-encoded path segments; null when one is malformed or does
+ * not decode to a single name segment (e.g. `%2F` or `%2E%2E`)
+ */
+export function decodePathSegments(segments: string[]): string[] | null {
+  try {
+    const decoded = segments.map((segment) => decodeURIComponent(segment));
+    return decoded.every(isValidNameSegment) ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Package a request reads (`user/pkg`), for package pages, metadata and
+ * downloads; null for other routes. Throws an `invalid` RegistryError when
+ * the package segments cannot be decoded.
+ */
+export function requestedPackage(request: Request): string | null {
+  if (request.method !== "GET" && request.method !== "HEAD") return null;
+  const { pathname } = new URL(request.url);
+  const match = pathname.match(/^\/(?:user|api\/packages|packages)\/([^/]+)\/([^/]+)/);
+  if (!match) return null;
+  const segments = decodePathSegments(match.slice(1));
+  if (!segments) {
+    throw new RegistryError(`Invalid package path: ${pathname}`, "invalid");
+  }
+  const [username, name] = segments;
+  return `${username}/${name.replace(/\.zip$/, "")}`;
+}
+
+/** 401 response asking for credentials */
+function unauthorized(registry: Registry, request: Request, error: string): Response {
+  // Git clients only answer Basic challenges (with the token as the password)
+  const { pathname } = new URL(request.url);
+  const challenge = pathname.startsWith("/git/") ? "Basic" : "Bearer";
+  return new Response(JSON.stringify({ error }), {
+    status: 401,
+    headers: {
+      "Content-Type": "application/json",
+      "WWW-Authenticate": `${challenge} realm="${registry.config.registry.name}"`,
+    },
+  });
+}
+
+/** 403 response */
+function forbidden(error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status: 403,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** 400 response */
+function badRequest(error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Authenticate request tokens, require the `read-index` or `download` scope
+ * for reads with `server.require_auth`, and apply `[[acl]]` read rules to
+ * package routes
+ */
+export function authenticate(registry: Registry): (handler: Handler) => Handler {
+  return (handler: Handler) => async (request: Request) => {
+    const token = getRequestToken(request);
+    const identity = token ? await registry.authenticate(token) : null;
+    if (identity) {
+      identities.set(request, identity);
+    }
+    const missing = token ? "Invalid or expired token" : "Authentication required";
+
+    const scope = requiredScope(request);
+    if (scope && scope !== "publish" && registry.config.server.require_auth) {
+      if (!identity) return unauthorized(registry, request, missing);
+      if (!hasScope(identity, scope)) return forbidden(`Token lacks the '${scope}' scope`);
+    }
+
+    let pkg: string | null;
+    try {
+      pkg = requestedPackage(request);
+    } catch (err) {
+      if (err instanceof RegistryError) return badRequest(err.message);
+      throw err;
+    }
+    if (pkg) {
+      const decision = registry.checkAccess(identity, pkg, "read");
+      if (!decision.allowed) {
+        return identity
+          ? forbidden(`Access to ${pkg} denied: ${decision.reason}`)
+          : unauthorized(registry, request, missing);
+      }
+    }
+
+    return handler(request);
+  };
+}
+
 /** Error handling wrapper */
 export function errorHandler(handler: Handler): Handler {
   return async (request: Request) => {
@@ -78,4 +244,16 @@ export function compose(...middlewares: ((h: Handler) => Handler)[]): (h: Handle
   };
 }
 
-export default { requestLogger, cors, errorHandler, compose };
+export default {
+  requestLogger,
+  cors,
+  createCors,
+  authenticate,
+  getIdentity,
+  getRequestToken,
+  requiredScope,
+  requestedPackage,
+  decodePathSegments,
+  errorHandler,
+  compose,
+};
@@ -0,0 +1,220 @@
+/**
+ * JSON package metadata endpoint handlers
+ *
+ * Lets tooling query the served index without cloning it: a paginated package
+ * listing with glob filtering, package metadata, per-version details with
+ * cache state, reverse dependencies, and keyword search.
+ */
+
+import { stat } from "node:fs/promises";
+import { matchGlob } from "../../core/dependency-resolver.ts";
+import type { Registry } from "../../core/registry.ts";
+import { sortVersions } from "../../core/semver.ts";
+import { parsePackageId } from "../../core/types.ts";
+import { decodePathSegments, getIdentity } from "../middleware.ts";
+
+/** Page size when `per_page` is not given */
+const DEFAULT_PER_PAGE = 50;
+
+/** Largest accepted `per_page` */
+const MAX_PER_PAGE = 500;
+
+export function createApiRoutes(registry: Registry) {
+  /** Build a JSON response */
+  function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": status === 200 ? "public, max-age=60" : "no-cache",
+      },
+    });
+  }
+
+  /** Parse a positive integer query parameter */
+  function parsePositiveInt(value: string | null, fallback: number): number | null {
+    if (value === null) return fallback;
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }
+
+  /** Handle package listing: ?pattern=<glob>&page=<n>&per_page=<n> */
+  async function handleListPackages(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const pattern = url.searchParams.get("pattern");
+    const page = parsePositiveInt(url.searchParams.get("page"), 1);
+    const perPage = parsePositiveInt(url.searchParams.get("per_page"), DEFAULT_PER_PAGE);
+    if (page === null || perPage === null || perPage > MAX_PER_PAGE) {
+      return json(
+        { error: `page and per_page must be positive integers (per_page at most ${MAX_PER_PAGE})` },
+        400,
+      );
+    }
+
+    const names = registry
+      .filterReadable(getIdentity(request), await registry.listPackages())
+      .filter((name) => !pattern || matchGlob(name, pattern))
+      .sort();
+
+    const packages = [];
+    for (const name of names.slice((page - 1) * perPage, page * perPage)) {
+      const pkgId = parsePackageId(name);
+      if (!pkgId) continue;
+      const metadata = await registry.getPackage(pkgId.username, pkgId.name);
+      const versions = sortVersions(metadata?.versions.map((v) => v.version) ?? []);
+      const available = new Set(metadata?.versions.filter((v) => !v.yanked).map((v) => v.version));
+      packages.push({
+        name,
+        latest: versions.filter((v) => available.has(v)).at(-1) ?? null,
+        versions,
+      });
+    }
+
+    return json({
+      total: names.length,
+      page,
+      per_page: perPage,
+      pages: Math.ceil(names.length / perPage),
+      packages,
+    });
+  }
+
+  /** Handle package search: ?q=<terms>&limit=<n> */
+  async function handleSearch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q")?.trim() ?? "";
+    if (!query) {
+      return json({ error: "Missing search query (q)" }, 400);
+    }
+    const limit = parsePositiveInt(url.searchParams.get("limit"), 20);
+    if (limit === null || limit > MAX_PER_PAGE) {
+      return json({ error: `limit must be a positive integer (at most ${MAX_PER_PAGE})` }, 400);
+    }
+
+    const identity = getIdentity(request);
+    const matches = (await registry.search(query, { limit: Number.POSITIVE_INFINITY })).filter(
+      (r) => registry.checkAccess(identity, r.name, "read").allowed,
+    );
+    return json({ query, total: matches.length, results: matches.slice(0, limit) });
+  }
+
+  /** Handle package metadata request */
+  async function handleGetPackage(username: string, packageName: string): Promise<Response> {
+    const metadata = await registry.getPackage(username, packageName);
+    if (!metadata) {
+      return json({ error: `Package not found: ${username}/${packageName}` }, 404);
+    }
+    return json(metadata);
+  }
+
+  /** Handle package version request, including the archive's cache state */
+  async function handleGetVersion(
+    username: string,
+    packageName: string,
+    version: string,
+  ): Promise<Response> {
+    const metadata = await registry.getPackage(username, packageName);
+    const entry = metadata?.versions.find((v) => v.version === version);
+    if (!entry) {
+      return json({ error: `Version not found: ${username}/${packageName}@${version}` }, 404);
+    }
+
+    const cached = registry.packageStore.hasPackage(username, packageName, version);
+    const size = cached
+      ? (await stat(registry.packageStore.getPackagePath(username, packageName, version))).size
+      : 0;
+
+    return json({
+      name: `${username}/${packageName}`,
+      version: entry.version,
+      checksum: entry.checksum,
+      deps: entry.deps,
+      yanked: entry.yanked ?? false,
+      created_at: entry.created_at ?? null,
+      cached,
+      size,
+    });
+  }
+
+  /** Handle reverse dependency lookup: ?transitive=true&version=<v> */
+  async function handleDependents(
+    request: Request,
+    username: string,
+    packageName: string,
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const transitive = ["true", "1"].includes(url.searchParams.get("transitive") ?? "");
+    const version = url.searchParams.get("version") ?? undefined;
+
+    const identity = getIdentity(request);
+    const readable = (name: string) => registry.checkAccess(identity, name, "read").allowed;
+    const dependents = (
+      await registry.findDependents(username, packageName, { transitive, version })
+    )
+      .filter((d) => readable(d.name))
+      .map((d) => (d.via && !readable(d.via) ? { ...d, via: undefined } : d));
+    return json({
+      name: `${username}/${packageName}`,
+      version: version ?? null,
+      transitive,
+      dependents,
+    });
+  }
+
+  /** Main router for metadata endpoints */
+  return async function handleApiRequest(
+    request: Request,
+    pathname: string,
+  ): Promise<Response | null> {
+    if (
+      pathname !== "/api/search" &&
+      pathname !== "/api/packages" &&
+      !pathname.startsWith("/api/packages/")
+    ) {
+      return null; // Not handled
+    }
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, HEAD" } });
+    }
+
+    if (pathname === "/api/search") {
+      return handleSearch(request);
+    }
+
+    if (pathname === "/api/packages") {
+      return handleListPackages(request);
+    }
+
+    // Match /api/packages/{username}/{package}/dependents
+    const dependentsMatch = pathname.match(/^\/api\/packages\/([^/]+)\/([^/]+)\/dependents$/);
+    if (dependentsMatch) {
+      const segments = decodePathSegments(dependentsMatch.slice(1));
+      if (!segments) return json({ error: "Invalid package path" }, 400);
+      const [username, packageName] = segments;
+      return handleDependents(request, username, packageName);
+    }
+
+    // Match /api/packages/{username}/{package}/{version}
+    const versionMatch = pathname.match(/^\/api\/packages\/([^/]+)\/([^/]+)\/([^/]+)$/);
+    if (versionMatch) {
+      const segments = decodePathSegments(versionMatch.slice(1));
+      if (!segments) return json({ error: "Invalid package path" }, 400);
+      const [username, packageName, version] = segments;
+      return handleGetVersion(username, packageName, version);
+    }
+
+    // Match /api/packages/{username}/{package}
+    const packageMatch = pathname.match(/^\/api\/packages\/([^/]+)\/([^/]+)$/);
+    if (packageMatch) {
+      const segments = decodePathSegments(packageMatch.slice(1));
+      if (!segments) return json({ error: "Invalid package path" }, 400);
+      const [username, packageName] = segments;
+      return handleGetPackage(username, packageName);
+    }
+
+    return null; // Not handled
+  };
+}
+
+export default createApiRoutes;
@@ -3,6 +3,8 @@
  *
  * Serves the git index as static files for dumb HTTP clients,
  * and delegates to git-http-backend for Smart HTTP (git-upload-pack).
+ * With `[[acl]]` rules, each token is served a view of the index holding
+ * only the packages it may read.
  */
 
 import { existsSync } from "node:fs";
@@ -11,6 +13,7 @@ import { join } from "node:path";
 import type { Registry } from "../../core/registry.ts";
 import type { SmartHttpConfig } from "../../core/types.ts";
 import logger from "../../utils/logger.ts";
+import { getIdentity } from "../middleware.ts";
 import { type SmartHttpHandlers, createSmartHttpHandlers } from "./smart-http.ts";
 
 /** Options for creating git routes */
@@ -31,45 +34,45 @@ export function createGitRoutes(registry: Registry, options: GitRoutesOptions =
   }
 
   /** Handle git info/refs request */
-  async function handleInfoRefs(request: Request): Promise<Response> {
+  async function handleInfoRefs(request: Request, repoDir: string): Promise<Response> {
     const url = new URL(request.url);
     const service = url.searchParams.get("service");
 
     if (service) {
       // Smart HTTP request
       if (smartHttpHandlers?.available) {
-        return smartHttpHandlers.handleInfoRefs(request, service);
+        return smartHttpHandlers.handleInfoRefs(request, service, repoDir);
       }
       // Smart HTTP not available
       return new Response("Smart HTTP not implemented", { status: 501 });
     }
 
     // Dumb HTTP: serve info/refs file
-    const refsPath = join(indexDir, ".git", "info", "refs");
+    const refsPath = join(repoDir, ".git", "info", "refs");
     return serveFile(refsPath, "text/plain");
   }
 
   /** Handle HEAD request */
-  async function handleHead(): Promise<Response> {
-    const headPath = join(indexDir, ".git", "HEAD");
+  async function handleHead(repoDir: string): Promise<Response> {
+    const headPath = join(repoDir, ".git", "HEAD");
     return serveFile(headPath, "text/plain");
   }
 
   /** Handle objects request (loose objects or packs) */
-  async function handleObjects(path: string): Promise<Response> {
-    const objectPath = join(indexDir, ".git", "objects", path);
+  async function handleObjects(repoDir: string, path: string): Promise<Response> {
+    const objectPath = join(repoDir, ".git", "objects", path);
     return serveFile(objectPath, "application/x-git-loose-object");
   }
 
   /** Handle refs request */
-  async function handleRefs(path: string): Promise<Response> {
-    const refPath = join(indexDir, ".git", "refs", path);
+  async function handleRefs(repoDir: string, path: string): Promise<Response> {
+    const refPath = join(repoDir, ".git", "refs", path);
     return serveFile(refPath, "text/plain");
   }
 
   /** Handle pack files */
-  async function handlePack(filename: string): Promise<Response> {
-    const packPath = join(indexDir, ".git", "objects", "pack", filename);
+  async function handlePack(repoDir: string, filename: string): Promise<Response> {
+    const packPath = join(repoDir, ".git", "objects", "pack", filename);
 
     if (filename.endsWith(".pack")) {
       return serveFile(packPath, "application/x-git-packed-objects");
@@ -124,40 +127,45 @@ export function createGitRoutes(registry: Registry, options: GitRoutesOptions =
       });
     }
 
+    // Fetches start with info/refs (or HEAD), which bring a token's view up to date
+    const repoDir = await registry.getIndexRepository(getIdentity(request), {
+      refresh: gitPath === "info/refs" || gitPath === "HEAD",
+    });
+
     // Smart HTTP: git-upload-pack POST
     if (gitPath === "git-upload-pack" && request.method === "POST") {
       if (smartHttpHandlers?.available) {
-        return smartHttpHandlers.handleUploadPack(request);
+        return smartHttpHandlers.handleUploadPack(request, repoDir);
       }
       return new Response("Smart HTTP not implemented", { status: 501 });
     }
 
     // Route based on path
     if (gitPath === "info/refs") {
-      return handleInfoRefs(request);
+      return handleInfoRefs(request, repoDir);
     }
 
     if (gitPath === "HEAD") {
-      return handleHead();
+      return handleHead(repoDir);
     }
 
     if (gitPath.startsWith("objects/pack/")) {
       const filename = gitPath.replace("objects/pack/", "");
-      return handlePack(filename);
+      return handlePack(repoDir, filename);
     }
 
     if (gitPath.startsWith("objects/")) {
       const objPath = gitPath.replace("objects/", "");
-      return handleObjects(objPath);
+      return handleObjects(repoDir, objPath);
     }
 
     if (gitPath.startsWith("refs/")) {
       const refPath = gitPath.replace("refs/", "");
-      return handleRefs(refPath);
+      return handleRefs(repoDir, refPath);
     }
 
     // Try to serve as a generic file in .git
-    const fullPath = join(indexDir, ".git", gitPath);
+    const fullPath = join(repoDir, ".git", gitPath);
     if (existsSync(fullPath)) {
       return serveFile(fullPath, "application/octet-stream");
     }
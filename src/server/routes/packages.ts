@@ -14,33 +14,13 @@ export function createPackageRoutes(registry: Registry) {
     packageName: string,
     version: string,
   ): Promise<Response> {
-    // Check if package exists locally
-    let packagePath = registry.packageStore.getPackageFile(username, packageName, version);
-
-    if (!packagePath) {
-      // Try to download from upstream if enabled
-      if (registry.config.upstream.enabled) {
-        try {
-          logger.info(`Fetching ${username}/${packageName}@${version} from upstream`);
-
-          // Get checksum from index
-          const metadata = await registry.getPackage(username, packageName);
-          const versionInfo = metadata?.versions.find((v) => v.version === version);
-          const checksum = versionInfo?.checksum;
-
-          packagePath = await registry.packageStore.downloadPackage(
-            username,
-            packageName,
-            version,
-            checksum,
-          );
-        } catch (err) {
-          logger.error(`Failed to fetch package from upstream: ${err}`);
-          return new Response("Package not found", { status: 404 });
-        }
-      } else {
-        return new Response("Package not found", { status: 404 });
-      }
+    // Serve from cache, or pull through from the enabled sources on a miss
+    let packagePath: string | null;
+    try {
+      packagePath = await registry.fetchPackage(username, packageName, version);
+    } catch (err) {
+      logger.error(`Failed to fetch package from sources: ${err}`);
+      return new Response("Package not found", { status: 404 });
     }
 
     if (!packagePath || !existsSync(packagePath)) {
@@ -0,0 +1,132 @@
+/**
+ * Package publish endpoint handlers
+ *
+ * Accepts package archives from authenticated clients and adds them to the index,
+ * and lets the same clients yank or unyank published versions.
+ */
+
+import { RegistryError, type RegistryErrorCode } from "../../core/errors.ts";
+import type { Registry } from "../../core/registry.ts";
+import { hasScope } from "../../core/token-store.ts";
+import logger from "../../utils/logger.ts";
+import { decodePathSegments, getIdentity } from "../middleware.ts";
+
+/** HTTP status codes for registry error codes */
+const ERROR_STATUS: Record<RegistryErrorCode, number> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+};
+
+export function createPublishRoutes(registry: Registry) {
+  /** Check write access, returning an error response when denied */
+  async function checkWriteAccess(request: Request): Promise<Response | null> {
+    const identity = getIdentity(request);
+    if (identity && hasScope(identity, "publish")) return null;
+    if (identity) {
+      return json({ error: "Token lacks the 'publish' scope" }, 403);
+    }
+
+    const tokens = await registry.tokens.list();
+    const canPublish = tokens.some((t) => hasScope(t, "publish"));
+    if (!registry.config.server.publish_token && !canPublish) {
+      return json({ error: "Publishing is disabled on this registry" }, 403);
+    }
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  /** Build a JSON response */
+  function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /** Convert an error into a JSON error response */
+  function errorResponse(err: unknown): Response {
+    if (err instanceof RegistryError) {
+      return json({ error: err.message }, ERROR_STATUS[err.code]);
+    }
+    throw err;
+  }
+
+  /** Handle package upload (body is the package zip) */
+  async function handlePublish(request: Request): Promise<Response> {
+    const denied = await checkWriteAccess(request);
+    if (denied) return denied;
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    if (data.length === 0) {
+      return json({ error: "Request body must be a package zip" }, 400);
+    }
+
+    try {
+      const entry = await registry.publish(data, { identity: getIdentity(request) ?? undefined });
+      logger.info(`Published ${entry.name}@${entry.version} via API`);
+      return json(entry, 201);
+    } catch (err) {
+      return errorResponse(err);
+    }
+  }
+
+  /** Handle yank/unyank of a package version */
+  async function handleYank(
+    request: Request,
+    username: string,
+    packageName: string,
+    version: string,
+    yanked: boolean,
+  ): Promise<Response> {
+    const denied = await checkWriteAccess(request);
+    if (denied) return denied;
+
+    const name = `${username}/${packageName}`;
+    const decision = registry.checkAccess(getIdentity(request), name, "yank");
+    if (!decision.allowed) {
+      return json(
+        { error: `Cannot ${yanked ? "yank" : "unyank"} ${name}: ${decision.reason}` },
+        403,
+      );
+    }
+
+    try {
+      const changed = yanked
+        ? await registry.yank(username, packageName, version)
+        : await registry.unyank(username, packageName, version);
+      return json({ name, version, yanked, changed });
+    } catch (err) {
+      return errorResponse(err);
+    }
+  }
+
+  /** Main router for publish endpoints */
+  return async function handlePublishRequest(
+    request: Request,
+    pathname: string,
+  ): Promise<Response | null> {
+    if (pathname === "/api/publish") {
+      if (request.method !== "POST") {
+        return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+      }
+      return handlePublish(request);
+    }
+
+    // Match /api/packages/{username}/{package}/{version}/(yank|unyank)
+    const yankMatch = pathname.match(/^\/api\/packages\/([^/]+)\/([^/]+)\/([^/]+)\/(yank|unyank)$/);
+    if (yankMatch) {
+      if (request.method !== "POST") {
+        return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+      }
+      const segments = decodePathSegments(yankMatch.slice(1, 4));
+      if (!segments) return json({ error: "Invalid package path" }, 400);
+      const [username, packageName, version] = segments;
+      return handleYank(request, username, packageName, version, yankMatch[4] === "yank");
+    }
+
+    return null; // Not handled
+  };
+}
+
+export default createPublishRoutes;
@@ -25,10 +25,10 @@ export interface SmartHttpOptions {
 export interface SmartHttpHandlers {
   /** Whether Smart HTTP is available */
   available: boolean;
-  /** Handle info/refs request with service parameter */
-  handleInfoRefs: (request: Request, service: string) => Promise<Response>;
-  /** Handle git-upload-pack POST request */
-  handleUploadPack: (request: Request) => Promise<Response>;
+  /** Handle info/refs request with service parameter (for another repository when given) */
+  handleInfoRefs: (request: Request, service: string, repoDir?: string) => Promise<Response>;
+  /** Handle git-upload-pack POST request (for another repository when given) */
+  handleUploadPack: (request: Request, repoDir?: string) => Promise<Response>;
 }
 
 /**
@@ -58,7 +58,11 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
    * Handle info/refs request with service parameter
    * GET /git/index/info/refs?service=git-upload-pack
    */
-  async function handleInfoRefs(_request: Request, service: string): Promise<Response> {
+  async function handleInfoRefs(
+    _request: Request,
+    service: string,
+    repoDir = indexDir,
+  ): Promise<Response> {
     // Only support git-upload-pack (read operations)
     if (service === "git-receive-pack") {
       return new Response("Write operations not supported", {
@@ -75,7 +79,7 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
     }
 
     try {
-      const response = await invokeCgi(backendPath, indexDir, {
+      const response = await invokeCgi(backendPath, repoDir, {
         method: "GET",
         pathInfo: "/info/refs",
         queryString: `service=${service}`,
@@ -83,11 +87,7 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
 
       return new Response(response.body, {
         status: response.status,
-        headers: {
-          "Content-Type": CONTENT_TYPES.infoRefsAdvertisement,
-          "Cache-Control": "no-cache",
-          ...response.headers,
-        },
+        headers: mergeHeaders(CONTENT_TYPES.infoRefsAdvertisement, response.headers),
       });
     } catch (err) {
       logger.error(`Smart HTTP info/refs error: ${err}`);
@@ -102,7 +102,7 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
    * Handle git-upload-pack POST request
    * POST /git/index/git-upload-pack
    */
-  async function handleUploadPack(request: Request): Promise<Response> {
+  async function handleUploadPack(request: Request, repoDir = indexDir): Promise<Response> {
     // Validate content type
     const contentType = request.headers.get("Content-Type");
     if (contentType !== CONTENT_TYPES.uploadPackRequest) {
@@ -113,7 +113,7 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
     }
 
     try {
-      const response = await invokeCgi(backendPath, indexDir, {
+      const response = await invokeCgi(backendPath, repoDir, {
         method: "POST",
         pathInfo: "/git-upload-pack",
         contentType: CONTENT_TYPES.uploadPackRequest,
@@ -122,11 +122,7 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
 
       return new Response(response.body, {
         status: response.status,
-        headers: {
-          "Content-Type": CONTENT_TYPES.uploadPackResult,
-          "Cache-Control": "no-cache",
-          ...response.headers,
-        },
+        headers: mergeHeaders(CONTENT_TYPES.uploadPackResult, response.headers),
       });
     } catch (err) {
       logger.error(`Smart HTTP git-upload-pack error: ${err}`);
@@ -144,6 +140,18 @@ export function createSmartHttpHandlers(options: SmartHttpOptions): SmartHttpHan
   };
 }
 
+/**
+ * Combine default headers with the backend's (whose names are lowercased),
+ * letting the backend's win instead of sending both values
+ */
+function mergeHeaders(contentType: string, backendHeaders: Record<string, string>): Headers {
+  const headers = new Headers({ "Content-Type": contentType, "Cache-Control": "no-cache" });
+  for (const [name, value] of Object.entries(backendHeaders)) {
+    headers.set(name, value);
+  }
+  return headers;
+}
+
 /**
  * Create disabled Smart HTTP handlers that return 501
  */
@@ -0,0 +1,258 @@
+/**
+ * Server-rendered HTML package browser
+ *
+ * A package list with search and a page per package showing versions,
+ * dependencies, yank state, a `moon add` snippet and the README of the cached
+ * archive. Pages are self-contained (inline CSS, no scripts or remote assets)
+ * so the browser works on offline networks.
+ */
+
+import { existsSync } from "node:fs";
+import { readModuleReadme } from "../../core/module.ts";
+import type { Registry } from "../../core/registry.ts";
+import { compareVersions } from "../../core/semver.ts";
+import type { PackageMetadata, PackageVersion } from "../../core/types.ts";
+import { parsePackageId } from "../../core/types.ts";
+import logger from "../../utils/logger.ts";
+import { escapeHtml, renderMarkdown } from "../../utils/markdown.ts";
+import { decodePathSegments, getIdentity } from "../middleware.ts";
+
+/** Packages per page on the package list */
+const PAGE_SIZE = 100;
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 0; color: #1f2328; background: #fff; }
+header { background: #24292f; padding: 12px 24px; }
+header a { color: #fff; font-weight: 600; text-decoration: none; }
+main { max-width: 960px; margin: 0 auto; padding: 24px; }
+a { color: #0969da; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+pre { background: #f6f8fa; padding: 12px; overflow-x: auto; border-radius: 6px; }
+code { font-family: ui-monospace, monospace; font-size: 90%; }
+.muted { color: #656d76; }
+.yanked { color: #cf222e; }
+.readme { border-top: 1px solid #d0d7de; margin-top: 24px; }
+form input[type=search] { width: 320px; padding: 4px 8px; }
+`;
+
+export function createUiRoutes(registry: Registry) {
+  /** Wrap page content in the shared layout */
+  function page(title: string, body: string, status = 200): Response {
+    const registryName = escapeHtml(registry.config.registry.name);
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - ${registryName}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><a href="/">${registryName}</a></header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+    return new Response(html, {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-cache" },
+    });
+  }
+
+  /** Render the package list (filtered by a search query when `q` is set) */
+  async function handleIndex(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q")?.trim() ?? "";
+    const pageNumber = Math.max(1, Number.parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+
+    const names = registry.filterReadable(
+      getIdentity(request),
+      query
+        ? (await registry.search(query, { limit: Number.POSITIVE_INFINITY })).map((r) => r.name)
+        : (await registry.listPackages()).sort(),
+    );
+    // Search results are truncated after filtering so unreadable matches do not crowd them out
+    const pageNames = query
+      ? names.slice(0, PAGE_SIZE)
+      : names.slice((pageNumber - 1) * PAGE_SIZE, pageNumber * PAGE_SIZE);
+
+    const rows: string[] = [];
+    for (const name of pageNames) {
+      const pkgId = parsePackageId(name);
+      if (!pkgId) continue;
+      const metadata = await registry.getPackage(pkgId.username, pkgId.name);
+      const latest = metadata ? latestVersion(metadata) : null;
+      rows.push(
+        `<tr><td><a href="${packageUrl(name)}">${escapeHtml(name)}</a></td>` +
+          `<td>${latest ? escapeHtml(latest.version) : '<span class="muted">-</span>'}</td>` +
+          `<td>${metadata?.versions.length ?? 0}</td></tr>`,
+      );
+    }
+
+    const pages = Math.ceil(names.length / PAGE_SIZE);
+    const nav: string[] = [];
+    if (!query && pageNumber > 1) nav.push(`<a href="/?page=${pageNumber - 1}">Previous</a>`);
+    if (!query && pageNumber < pages) nav.push(`<a href="/?page=${pageNumber + 1}">Next</a>`);
+
+    const summary = query
+      ? `${names.length} packages matching <strong>${escapeHtml(query)}</strong>`
+      : `${names.length} packages`;
+    const table =
+      rows.length > 0
+        ? `<table><thead><tr><th>Package</th><th>Latest</th><th>Versions</th></tr></thead><tbody>${rows.join("")}</tbody></table>`
+        : '<p class="muted">No packages found.</p>';
+
+    return page(
+      "Packages",
+      `<h1>Packages</h1>
+<form method="get" action="/"><input type="search" name="q" value="${escapeHtml(query)}" placeholder="Search packages"> <button type="submit">Search</button></form>
+<p class="muted">${summary}</p>
+${table}
+<p>${nav.join(" ")}</p>`,
+    );
+  }
+
+  /** Render a package page for its latest version or a given version */
+  async function handlePackage(
+    request: Request,
+    username: string,
+    packageName: string,
+    requestedVersion?: string,
+  ): Promise<Response> {
+    const name = `${username}/${packageName}`;
+    const metadata = await registry.getPackage(username, packageName);
+    if (!metadata || metadata.versions.length === 0) {
+      return page("Not found", `<h1>Package not found</h1><p>${escapeHtml(name)}</p>`, 404);
+    }
+
+    const selected = requestedVersion
+      ? metadata.versions.find((v) => v.version === requestedVersion)
+      : (latestVersion(metadata) ?? undefined);
+    if (!selected) {
+      return page(
+        "Not found",
+        `<h1>Version not found</h1><p>${escapeHtml(`${name}@${requestedVersion}`)}</p>`,
+        404,
+      );
+    }
+
+    const versions = [...metadata.versions].sort((a, b) => compareVersions(b.version, a.version));
+    const versionRows = versions
+      .map((v) => {
+        const cached = registry.packageStore.hasPackage(username, packageName, v.version);
+        const label =
+          v.version === selected.version
+            ? `<strong>${escapeHtml(v.version)}</strong>`
+            : `<a href="${packageUrl(name, v.version)}">${escapeHtml(v.version)}</a>`;
+        return (
+          `<tr><td>${label}${v.yanked ? ' <span class="yanked">yanked</span>' : ""}</td>` +
+          `<td>${v.created_at ? escapeHtml(v.created_at.slice(0, 10)) : ""}</td>` +
+          `<td>${cached ? "cached" : '<span class="muted">not cached</span>'}</td></tr>`
+        );
+      })
+      .join("");
+
+    // Dependencies the viewer may not read are counted but not named
+    const identity = getIdentity(request);
+    const allDeps = Object.entries(selected.deps ?? {});
+    const deps = allDeps.filter(([dep]) => registry.checkAccess(identity, dep, "read").allowed);
+    const hiddenDeps = allDeps.length - deps.length;
+    const depItems = deps
+      .map(
+        ([dep, req]) =>
+          `<li><a href="${packageUrl(dep)}">${escapeHtml(dep)}</a> <code>${escapeHtml(req)}</code></li>`,
+      )
+      .join("");
+    const depList =
+      allDeps.length > 0
+        ? (depItems ? `<ul>${depItems}</ul>` : "") +
+          (hiddenDeps > 0 ? `<p class="muted">Not shown: ${hiddenDeps} you cannot access.</p>` : "")
+        : '<p class="muted">No dependencies.</p>';
+
+    const readme = await readReadme(username, packageName, selected.version);
+    const readmeSection = readme
+      ? `<section class="readme">${renderMarkdown(readme)}</section>`
+      : '<p class="muted">No README available (the archive is not cached or has no README).</p>';
+
+    const yankedNote = selected.yanked
+      ? '<p class="yanked">This version is yanked: existing lockfiles keep working, but new projects should not depend on it.</p>'
+      : "";
+
+    return page(
+      name,
+      `<h1>${escapeHtml(name)} <span class="muted">${escapeHtml(selected.version)}</span></h1>
+${yankedNote}
+<pre><code>moon add ${escapeHtml(`${name}@${selected.version}`)}</code></pre>
+<h2>Dependencies</h2>
+${depList}
+<h2>Versions</h2>
+<table><thead><tr><th>Version</th><th>Published</th><th>Archive</th></tr></thead><tbody>${versionRows}</tbody></table>
+<h2>README</h2>
+${readmeSection}`,
+    );
+  }
+
+  /** Read the README from a cached archive (never downloads) */
+  async function readReadme(
+    username: string,
+    packageName: string,
+    version: string,
+  ): Promise<string | null> {
+    const path = registry.packageStore.getPackagePath(username, packageName, version);
+    if (!existsSync(path)) return null;
+
+    try {
+      return readModuleReadme(new Uint8Array(await Bun.file(path).arrayBuffer()));
+    } catch (err) {
+      logger.debug(`Failed to read README from ${path}: ${err}`);
+      return null;
+    }
+  }
+
+  /** Main router for HTML pages */
+  return async function handleUiRequest(
+    request: Request,
+    pathname: string,
+  ): Promise<Response | null> {
+    if (request.method !== "GET" && request.method !== "HEAD") return null;
+
+    if (pathname === "/") {
+      return handleIndex(request);
+    }
+
+    // Match /packages/{username}/{package}[/{version}]
+    const match = pathname.match(/^\/packages\/([^/]+)\/([^/]+)(?:\/([^/]+))?\/?$/);
+    if (match) {
+      const segments = decodePathSegments(match.slice(1).filter((s) => s !== undefined));
+      if (!segments) {
+        return page("Bad request", "<h1>Invalid package path</h1>", 400);
+      }
+      const [username, packageName, version] = segments;
+      return handlePackage(request, username, packageName, version);
+    }
+
+    return null; // Not handled
+  };
+}
+
+/** Check whether a request prefers an HTML page over JSON */
+export function wantsHtml(request: Request): boolean {
+  return (request.headers.get("Accept") ?? "").includes("text/html");
+}
+
+/** Link to a package page */
+function packageUrl(name: string, version?: string): string {
+  const path = name.split("/").map(encodeURIComponent).join("/");
+  return version ? `/packages/${path}/${encodeURIComponent(version)}` : `/packages/${path}`;
+}
+
+/** Highest non-yanked version, falling back to the highest version */
+function latestVersion(metadata: PackageMetadata): PackageVersion | null {
+  const sorted = [...metadata.versions].sort((a, b) => compareVersions(b.version, a.version));
+  return sorted.find((v) => !v.yanked) ?? sorted[0] ?? null;
+}
+
+export default createUiRoutes;
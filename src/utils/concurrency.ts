@@ -0,0 +1,85 @@
+/**
+ * Concurrency helpers: bounded worker pools, retries with backoff and an
+ * async mutex
+ */
+
+/** Options for retrying an operation */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay */
+  maxDelayMs?: number;
+  /** Decide whether an error is worth retrying (default: always) */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before each retry with the attempt number that failed */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/** Wait for a number of milliseconds */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Run an operation, retrying failures with exponential backoff and jitter */
+export async function retry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (attempt > options.retries || !(options.shouldRetry?.(err) ?? true)) {
+        throw err;
+      }
+
+      const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      const delayMs = Math.round(backoff * (0.5 + Math.random() / 2));
+      options.onRetry?.(err, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Run a worker over items with at most `limit` running at once.
+ * Results keep the order of the input items.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+  await Promise.all(workers);
+  return results;
+}
+
+/** Async mutual exclusion: tasks run one at a time, in the order they were queued */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  /** Run a task once every task queued before it has settled */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+}
+
+export default { sleep, retry, mapConcurrent, Mutex };
@@ -2,7 +2,7 @@
  * Cryptographic utilities (SHA256 checksums)
  */
 
-import { createHash } from "node:crypto";
+import { type Hash, createHash } from "node:crypto";
 import { createReadStream } from "node:fs";
 
 /** Calculate SHA256 hash of a string */
@@ -10,18 +10,24 @@ export function sha256(data: string | Buffer): string {
   return createHash("sha256").update(data).digest("hex");
 }
 
-/** Calculate SHA256 hash of a file */
-export async function sha256File(path: string): Promise<string> {
+/** Feed a file's contents into an existing hash */
+export async function hashFile(hash: Hash, path: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const hash = createHash("sha256");
     const stream = createReadStream(path);
 
     stream.on("data", (chunk) => hash.update(chunk));
-    stream.on("end", () => resolve(hash.digest("hex")));
+    stream.on("end", () => resolve());
     stream.on("error", reject);
   });
 }
 
+/** Calculate SHA256 hash of a file */
+export async function sha256File(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  await hashFile(hash, path);
+  return hash.digest("hex");
+}
+
 /** Verify a file's checksum */
 export async function verifyChecksum(path: string, expected: string): Promise<boolean> {
   const actual = await sha256File(path);
@@ -36,6 +42,7 @@ export async function sha256Blob(blob: Blob): Promise<string> {
 
 export const crypto = {
   sha256,
+  hashFile,
   sha256File,
   verifyChecksum,
   sha256Blob,
@@ -0,0 +1,12 @@
+/**
+ * Environment variable helpers
+ */
+
+/** Resolve environment variable references like ${VAR} */
+export function resolveEnvVars(value: string): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_, varName: string) => {
+    return process.env[varName] ?? "";
+  });
+}
+
+export default { resolveEnvVars };
@@ -14,6 +14,13 @@ export interface GitResult {
   exitCode: number;
 }
 
+export interface GitCommitInfo {
+  hash: string;
+  /** Commit time (ISO 8601) */
+  date: string;
+  message: string;
+}
+
 /** Run a git command and return the result */
 async function runGit(args: string[], cwd?: string): Promise<GitResult> {
   try {
@@ -104,9 +111,18 @@ export async function add(dir: string, files: string[]): Promise<GitResult> {
   return runGit(["add", ...files], dir);
 }
 
-/** Commit changes */
-export async function commit(dir: string, message: string): Promise<GitResult> {
-  return runGit(["commit", "-m", message], dir);
+/** Commit changes (`allowEmpty` records a commit even without changes) */
+export async function commit(
+  dir: string,
+  message: string,
+  options: { allowEmpty?: boolean } = {},
+): Promise<GitResult> {
+  return runGit(["commit", ...(options.allowEmpty ? ["--allow-empty"] : []), "-m", message], dir);
+}
+
+/** Update auxiliary files (info/refs) needed by dumb HTTP clients */
+export async function updateServerInfo(dir: string): Promise<GitResult> {
+  return runGit(["update-server-info"], dir);
 }
 
 /** Get current branch name */
@@ -115,6 +131,42 @@ export async function getCurrentBranch(dir: string): Promise<string | null> {
   return result.success ? result.stdout : null;
 }
 
+/** Get the latest commit on HEAD (null for an empty repository) */
+export async function getLastCommit(dir: string): Promise<GitCommitInfo | null> {
+  const result = await runGit(["log", "-1", "--format=%H%n%cI%n%s"], dir);
+  if (!result.success || !result.stdout) return null;
+
+  const [hash, date, ...message] = result.stdout.split("\n");
+  return { hash, date, message: message.join("\n") };
+}
+
+/** Resolve a revision to a full commit hash (null if it does not name a commit) */
+export async function resolveRevision(dir: string, rev: string): Promise<string | null> {
+  const result = await runGit(["rev-parse", "--verify", "--quiet", `${rev}^{commit}`], dir);
+  return result.success && result.stdout ? result.stdout : null;
+}
+
+/** List the files changed between two revisions */
+export async function diffFiles(dir: string, from: string, to = "HEAD"): Promise<string[]> {
+  const result = await runGit(["diff", "--name-only", "--no-renames", from, to], dir);
+  if (!result.success) {
+    throw new Error(`git diff ${from} ${to} failed: ${result.stderr}`);
+  }
+  return result.stdout ? result.stdout.split("\n") : [];
+}
+
+/** Read a file at a revision (null if it does not exist there) */
+export async function showFile(dir: string, rev: string, path: string): Promise<string | null> {
+  const result = await runGit(["show", `${rev}:${path}`], dir);
+  return result.success ? result.stdout : null;
+}
+
+/** List the files committed at a revision (empty if it does not exist) */
+export async function listFiles(dir: string, rev = "HEAD"): Promise<string[]> {
+  const result = await runGit(["ls-tree", "-r", "--name-only", rev], dir);
+  return result.success && result.stdout ? result.stdout.split("\n") : [];
+}
+
 /** Check if there are uncommitted changes */
 export async function hasChanges(dir: string): Promise<boolean> {
   const result = await runGit(["status", "--porcelain"], dir);
@@ -171,7 +223,13 @@ export const git = {
   push,
   add,
   commit,
+  updateServerInfo,
   getCurrentBranch,
+  getLastCommit,
+  resolveRevision,
+  diffFiles,
+  showFile,
+  listFiles,
   hasChanges,
   addRemote,
   setRemoteUrl,
@@ -0,0 +1,167 @@
+/**
+ * Minimal Markdown to HTML rendering for package READMEs
+ *
+ * Supports headings, paragraphs, fenced code blocks, lists, blockquotes,
+ * horizontal rules, and inline code, emphasis and links. All text is escaped
+ * and raw HTML is not passed through. Images are rendered as links so pages
+ * never load remote assets.
+ */
+
+/** Escape text for use in HTML content and attribute values */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Render Markdown to HTML */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${renderInline(paragraph.join(" "))}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const items = list.items.map((item) => `<li>${renderInline(item)}</li>`).join("");
+      html.push(`<${list.tag}>${items}</${list.tag}>`);
+      list = null;
+    }
+  };
+  const flush = () => {
+    flushParagraph();
+    flushList();
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code block
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : "";
+      html.push(`<pre><code${lang}>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      html.push("<hr>");
+      continue;
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      flush();
+      html.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const tag = item[1] ? "ul" : "ol";
+      if (list && list.tag !== tag) flushList();
+      list ??= { tag, items: [] };
+      list.items.push(item[2]);
+      continue;
+    }
+
+    // Continuation of a list item or paragraph
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return html.join("\n");
+}
+
+/** Render inline Markdown (code spans, links, emphasis) in a line of text */
+function renderInline(text: string): string {
+  // Code spans are rendered verbatim, so split them out first
+  return text
+    .split(/(`+[^`]*`+)/)
+    .map((part) => {
+      const code = part.match(/^(`+)([^`]*)\1$/);
+      return code ? `<code>${escapeHtml(code[2].trim())}</code>` : renderText(part);
+    })
+    .join("");
+}
+
+/** Render links and emphasis in text without code spans */
+function renderText(text: string): string {
+  return escapeHtml(text)
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, label, url) => {
+      const href = safeUrl(url);
+      const content = label || url;
+      return href ? `<a href="${href}">${content}</a>` : content;
+    })
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`);
+}
+
+/** Link protocols allowed in rendered links (relative links resolve to http:) */
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/** Reverse escapeHtml */
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Allow only http(s), mailto, relative and fragment links. Browsers strip
+ * control characters and whitespace from URLs, so URLs containing any are
+ * rejected rather than checked for a scheme.
+ */
+function safeUrl(url: string): string | null {
+  const raw = unescapeHtml(url);
+  for (const char of raw) {
+    const code = char.charCodeAt(0);
+    if (code <= 0x20 || (code >= 0x7f && code <= 0x9f)) return null;
+  }
+
+  try {
+    const { protocol } = new URL(raw, "http://base.invalid/");
+    return SAFE_PROTOCOLS.includes(protocol) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export default { escapeHtml, renderMarkdown };
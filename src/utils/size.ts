@@ -0,0 +1,24 @@
+/**
+ * Byte size string helpers
+ */
+
+const UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+/** Parse a size string (e.g., "500MB", "10GB") to bytes */
+export function parseSize(size: string): number {
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size format: ${size}`);
+  }
+
+  const unit = (match[2] ?? "B").toUpperCase();
+  return Math.floor(Number(match[1]) * UNITS[unit]);
+}
+
+export default { parseSize };
@@ -0,0 +1,197 @@
+/**
+ * Minimal ZIP archive utilities
+ *
+ * Reads entries from package archives (stored and deflated entries only)
+ * and creates small stored archives. ZIP64 archives are not supported.
+ */
+
+import { crc32, inflateRawSync } from "node:zlib";
+
+/** Signatures used by the ZIP format */
+const SIGNATURES = {
+  localFile: 0x04034b50,
+  centralDirectory: 0x02014b50,
+  endOfCentralDirectory: 0x06054b50,
+} as const;
+
+/** Compression methods */
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/** Largest size a deflated entry may inflate to, so small archives cannot expand to gigabytes */
+export const MAX_INFLATED_SIZE = 64 * 1024 * 1024;
+
+/** Entry in a ZIP central directory */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/** File to add to a new archive */
+export interface ZipInput {
+  name: string;
+  data: Uint8Array | string;
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/** Locate the end of central directory record */
+function findEndOfCentralDirectory(data: Uint8Array): number {
+  const dv = view(data);
+  // The EOCD record is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= minOffset; i--) {
+    if (dv.getUint32(i, true) === SIGNATURES.endOfCentralDirectory) {
+      return i;
+    }
+  }
+  throw new Error("Invalid zip archive: end of central directory not found");
+}
+
+/** List the entries of a ZIP archive */
+export function listEntries(data: Uint8Array): ZipEntry[] {
+  const dv = view(data);
+  const eocd = findEndOfCentralDirectory(data);
+  const count = dv.getUint16(eocd + 10, true);
+  let offset = dv.getUint32(eocd + 16, true);
+
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (dv.getUint32(offset, true) !== SIGNATURES.centralDirectory) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+
+    const method = dv.getUint16(offset + 10, true);
+    const compressedSize = dv.getUint32(offset + 20, true);
+    const size = dv.getUint32(offset + 24, true);
+    const nameLength = dv.getUint16(offset + 28, true);
+    const extraLength = dv.getUint16(offset + 30, true);
+    const commentLength = dv.getUint16(offset + 32, true);
+    const localOffset = dv.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.push({ name, method, compressedSize, size, offset: localOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** Extract the contents of a single entry, inflating at most `maxSize` bytes */
+export function extractEntry(
+  data: Uint8Array,
+  entry: ZipEntry,
+  maxSize = MAX_INFLATED_SIZE,
+): Uint8Array {
+  const dv = view(data);
+  if (dv.getUint32(entry.offset, true) !== SIGNATURES.localFile) {
+    throw new Error(`Invalid zip archive: corrupt local header for ${entry.name}`);
+  }
+
+  const nameLength = dv.getUint16(entry.offset + 26, true);
+  const extraLength = dv.getUint16(entry.offset + 28, true);
+  const start = entry.offset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed;
+    case METHOD_DEFLATED:
+      if (entry.size > maxSize) {
+        throw new Error(`Entry ${entry.name} is too large (${entry.size} bytes)`);
+      }
+      try {
+        return new Uint8Array(inflateRawSync(compressed, { maxOutputLength: maxSize }));
+      } catch (err) {
+        throw new Error(`Failed to inflate ${entry.name}: ${(err as Error).message}`);
+      }
+    default:
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}
+
+/** Read a file from an archive by exact name (returns null if missing) */
+export function readEntry(data: Uint8Array, name: string): Uint8Array | null {
+  const entry = listEntries(data).find((e) => e.name === name);
+  return entry ? extractEntry(data, entry) : null;
+}
+
+/** Create a ZIP archive with stored (uncompressed) entries */
+export function createZip(files: ZipInput[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === "string" ? encoder.encode(file.data) : file.data;
+    const checksum = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = view(local);
+    lv.setUint32(0, SIGNATURES.localFile, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(8, METHOD_STORED, true);
+    lv.setUint32(14, checksum, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = view(central);
+    cv.setUint32(0, SIGNATURES.centralDirectory, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(10, METHOD_STORED, true);
+    cv.setUint32(16, checksum, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = view(eocd);
+  ev.setUint32(0, SIGNATURES.endOfCentralDirectory, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, eocd];
+  const result = new Uint8Array(offset + centralSize + eocd.length);
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+export const zip = {
+  listEntries,
+  extractEntry,
+  readEntry,
+  createZip,
+};
+
+export default zip;
@@ -32,6 +32,18 @@ describe("CLI Commands", () => {
       expect(result).toContain("config");
       expect(result).toContain("sync");
       expect(result).toContain("update");
+      expect(result).toContain("publish");
+      expect(result).toContain("yank");
+      expect(result).toContain("verify");
+      expect(result).toContain("gc");
+      expect(result).toContain("stats");
+      expect(result).toContain("info");
+      expect(result).toContain("search");
+      expect(result).toContain("rdeps");
+      expect(result).toContain("graph");
+      expect(result).toContain("bundle");
+      expect(result).toContain("token");
+      expect(result).toContain("acl");
     });
   });
 
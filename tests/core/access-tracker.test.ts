@@ -0,0 +1,65 @@
+/**
+ * Tests for AccessTracker class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AccessTracker } from "../../src/core/access-tracker.ts";
+
+describe("AccessTracker", () => {
+  let tempDir: string;
+  let path: string;
+
+  const readLog = async () => Object.keys(await Bun.file(path).json()).sort();
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-access-test-"));
+    path = join(tempDir, "access.json");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should merge with times written by another process", async () => {
+    const server = new AccessTracker(path);
+    const cli = new AccessTracker(path);
+    expect(await cli.lastAccess("team/utils@0.1.0")).toBeNull();
+
+    await server.touch("team/utils@0.1.0");
+    await server.flush();
+    await cli.touch("team/app@0.2.0");
+    await cli.flush();
+
+    expect(await readLog()).toEqual(["team/app@0.2.0", "team/utils@0.1.0"]);
+    expect(await cli.lastAccess("team/utils@0.1.0")).not.toBeNull();
+  });
+
+  it("should not bring back versions another process forgot", async () => {
+    const server = new AccessTracker(path);
+    await server.touch("team/utils@0.1.0");
+    await server.flush();
+
+    const gc = new AccessTracker(path);
+    await gc.forget("team/utils@0.1.0");
+    await gc.flush();
+    await server.touch("team/app@0.2.0");
+    await server.flush();
+
+    expect(await readLog()).toEqual(["team/app@0.2.0"]);
+  });
+
+  it("should flush pending times before the process exits", async () => {
+    const module = join(import.meta.dir, "../../src/core/access-tracker.ts");
+    const script = `
+      import { AccessTracker } from ${JSON.stringify(module)};
+      await new AccessTracker(${JSON.stringify(path)}).touch("team/utils@0.1.0");
+    `;
+    const result = Bun.spawnSync([process.execPath, "-e", script]);
+
+    expect(result.exitCode).toBe(0);
+    expect(await readLog()).toEqual(["team/utils@0.1.0"]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for AccessControl class
+ */
+
+import { describe, expect, it } from "bun:test";
+import { AccessControl } from "../../src/core/acl.ts";
+import type { AclRule, TokenIdentity } from "../../src/core/types.ts";
+
+describe("AccessControl", () => {
+  const rules: AclRule[] = [
+    { groups: ["payments"], packages: ["payments/*"], permissions: ["read", "publish"] },
+    { tokens: ["release-bot"], packages: ["payments/*"], permissions: ["yank"] },
+    { tokens: ["*"], packages: ["payments/sdk"], permissions: ["read"] },
+  ];
+  const acl = new AccessControl(rules);
+
+  const developer: TokenIdentity = {
+    id: "a1",
+    name: "alice",
+    scopes: ["read-index", "download", "publish"],
+    groups: ["payments"],
+  };
+  const bot: TokenIdentity = { id: "b2", name: "release-bot", scopes: ["publish"] };
+  const reader: TokenIdentity = { id: "c3", name: "reader", scopes: ["read-index", "download"] };
+  const admin: TokenIdentity = { id: "d4", name: "root", scopes: ["admin"] };
+
+  it("should allow packages no rule covers", () => {
+    const decision = acl.check(null, "team/utils", "read");
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.reason).toContain("no ACL rule covers team/utils");
+  });
+
+  it("should grant permissions through groups and token names", () => {
+    const publish = acl.check(developer, "payments/core", "publish");
+    expect(publish.allowed).toBe(true);
+    expect(publish.rule).toBe(0);
+    expect(publish.reason).toContain("group 'payments'");
+
+    const yank = acl.check(bot, "payments/core", "yank");
+    expect(yank.allowed).toBe(true);
+    expect(yank.reason).toContain("token 'release-bot'");
+  });
+
+  it("should deny covered packages to other subjects", () => {
+    expect(acl.check(developer, "payments/core", "yank").allowed).toBe(false);
+    expect(acl.check(reader, "payments/core", "read").allowed).toBe(false);
+    expect(acl.check(null, "payments/core", "read").reason).toContain("anonymous");
+  });
+
+  it("should match any token with '*'", () => {
+    expect(acl.check(reader, "payments/sdk", "read").allowed).toBe(true);
+    expect(acl.check(null, "payments/sdk", "read").allowed).toBe(false);
+  });
+
+  it("should require the publish scope for publish and yank", () => {
+    const decision = acl.check(
+      { ...developer, scopes: ["read-index"] },
+      "payments/core",
+      "publish",
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain("lacks the 'publish' scope");
+  });
+
+  it("should let admin tokens bypass the rules", () => {
+    expect(acl.check(admin, "payments/core", "yank").allowed).toBe(true);
+  });
+
+  it("should filter readable packages", () => {
+    expect(acl.filterReadable(reader, ["payments/core", "payments/sdk", "team/utils"])).toEqual([
+      "payments/sdk",
+      "team/utils",
+    ]);
+  });
+});
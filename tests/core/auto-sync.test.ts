@@ -0,0 +1,101 @@
+/**
+ * Tests for AutoSync class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AutoSync } from "../../src/core/auto-sync.ts";
+import { Registry } from "../../src/core/registry.ts";
+
+describe("AutoSync", () => {
+  let tempDir: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let registry: Registry;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-autosync-test-"));
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const path = new URL(request.url).pathname;
+        if (path === "/index/index.json") return Response.json(["team/utils"]);
+        if (path === "/index/team/utils") {
+          return new Response('{"name":"team/utils","version":"0.1.0","checksum":"a","deps":{}}');
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+    const initialized = await Registry.init(tempDir);
+    const config = initialized.config;
+    config.sources = [
+      {
+        name: "internal",
+        type: "custom",
+        url: `http://localhost:${server.port}`,
+        index_url: `http://localhost:${server.port}/index`,
+        index_type: "http",
+        enabled: true,
+      },
+      {
+        name: "broken",
+        type: "custom",
+        url: `http://localhost:${server.port}`,
+        index_url: `http://localhost:${server.port}/missing`,
+        index_type: "http",
+        enabled: false,
+      },
+    ];
+    registry = new Registry(config, tempDir);
+  });
+
+  afterEach(async () => {
+    server.stop(true);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should sync every enabled source index", async () => {
+    const autoSync = new AutoSync(registry, 60_000);
+
+    const result = await autoSync.runOnce();
+
+    expect(result.success).toBe(true);
+    expect(result.sources).toEqual([{ name: "internal", success: true }]);
+    expect(result.mirrored).toBe(false);
+    expect(await registry.indexManager.listPackagesFromSource("internal")).toEqual(["team/utils"]);
+    expect(await registry.indexManager.readSyncState()).toHaveProperty("internal");
+  });
+
+  it("should record failures in the last run status", async () => {
+    for (const source of registry.config.sources ?? []) {
+      source.enabled = true;
+    }
+    registry = new Registry(registry.config, tempDir);
+    const autoSync = new AutoSync(registry, 60_000);
+
+    await autoSync.runOnce();
+    const status = autoSync.getStatus();
+
+    expect(status.enabled).toBe(false);
+    expect(status.last_run?.success).toBe(false);
+    expect(status.last_run?.sources.find((s) => s.name === "broken")?.success).toBe(false);
+  });
+
+  it("should reject a zero interval", () => {
+    expect(() => new AutoSync(registry, 0)).toThrow("longer than zero");
+  });
+
+  it("should report the next scheduled run while started", () => {
+    const autoSync = new AutoSync(registry, 60_000);
+
+    autoSync.start();
+    expect(autoSync.getStatus().enabled).toBe(true);
+    expect(autoSync.getStatus().next_run).not.toBeNull();
+
+    autoSync.stop();
+    expect(autoSync.getStatus().enabled).toBe(false);
+    expect(autoSync.getStatus().next_run).toBeNull();
+  });
+});
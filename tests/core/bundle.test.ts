@@ -0,0 +1,248 @@
+/**
+ * Tests for offline bundle export and import
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BUNDLE_MANIFEST_FILE } from "../../src/core/bundle.ts";
+import { RegistryError } from "../../src/core/errors.ts";
+import { Registry } from "../../src/core/registry.ts";
+import { createZip, listEntries, readEntry } from "../../src/utils/zip.ts";
+
+/** Build a package archive containing a moon.mod.json */
+function packageZip(name: string, version: string, deps: Record<string, string> = {}) {
+  return createZip([{ name: "moon.mod.json", data: JSON.stringify({ name, version, deps }) }]);
+}
+
+describe("Bundler", () => {
+  let tempDir: string;
+  let source: Registry;
+  let target: Registry;
+  let bundlePath: string;
+
+  const options = { full: false, strict: false, quiet: true };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-bundle-test-"));
+    source = await Registry.init(join(tempDir, "source"), "online");
+    target = await Registry.init(join(tempDir, "target"), "offline");
+    bundlePath = join(tempDir, "bundle.zip");
+
+    await source.publish(packageZip("team/app", "1.0.0", { "team/lib": "0.1.0" }));
+    await source.publish(packageZip("team/lib", "0.1.0"));
+    await source.publish(packageZip("other/pkg", "2.0.0"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should export matched packages with their dependencies", async () => {
+    const report = await source.exportBundle({ ...options, patterns: ["team/*"] }, bundlePath);
+
+    expect(report.missing).toEqual([]);
+    expect(report.manifest.registry).toBe("online");
+    expect(report.manifest.index_commit).not.toBeNull();
+    expect(report.manifest.packages.map((p) => `${p.name}@${p.version}`)).toEqual([
+      "team/app@1.0.0",
+      "team/lib@0.1.0",
+    ]);
+
+    const data = new Uint8Array(await Bun.file(bundlePath).arrayBuffer());
+    expect(listEntries(data).map((e) => e.name)).toContain("packages/team/lib/0.1.0.zip");
+    expect(readEntry(data, BUNDLE_MANIFEST_FILE)).not.toBeNull();
+  });
+
+  it("should import a bundle into another registry", async () => {
+    await source.exportBundle({ ...options, patterns: ["team/*"] }, bundlePath);
+
+    const report = await target.importBundle(bundlePath);
+
+    expect(report.imported).toBe(2);
+    expect(report.index_changed).toBe(2);
+    expect(target.packageStore.hasPackage("team", "lib", "0.1.0")).toBe(true);
+    const metadata = await target.indexManager.getPackage("team", "app");
+    expect(metadata?.versions[0].deps).toEqual({ "team/lib": "0.1.0" });
+    expect((await target.indexManager.getLastCommit())?.message).toContain("Import bundle");
+
+    const again = await target.importBundle(bundlePath);
+    expect(again.imported).toBe(0);
+    expect(again.skipped).toBe(2);
+    expect(again.index_changed).toBe(0);
+  });
+
+  it("should reject a bundle with a tampered archive", async () => {
+    await source.exportBundle({ ...options, patterns: ["team/lib"] }, bundlePath);
+    const data = new Uint8Array(await Bun.file(bundlePath).arrayBuffer());
+    const tampered = createZip([
+      { name: BUNDLE_MANIFEST_FILE, data: readEntry(data, BUNDLE_MANIFEST_FILE) ?? "" },
+      { name: "index/team/lib", data: readEntry(data, "index/team/lib") ?? "" },
+      { name: "packages/team/lib/0.1.0.zip", data: "tampered" },
+    ]);
+    await Bun.write(bundlePath, tampered);
+
+    await expect(target.importBundle(bundlePath)).rejects.toThrow("checksum mismatch");
+    expect(target.packageStore.hasPackage("team", "lib", "0.1.0")).toBe(false);
+    expect(await target.indexManager.getPackage("team", "lib")).toBeNull();
+  });
+
+  it("should refuse versions already served with a different checksum", async () => {
+    await source.exportBundle({ ...options, patterns: ["team/lib"] }, bundlePath);
+    await target.publish(
+      createZip([
+        { name: "moon.mod.json", data: JSON.stringify({ name: "team/lib", version: "0.1.0" }) },
+        { name: "README.md", data: "different" },
+      ]),
+    );
+
+    await expect(target.importBundle(bundlePath)).rejects.toThrow("different checksum");
+  });
+
+  describe("hostile bundles", () => {
+    const archive = packageZip("team/lib", "0.1.0");
+    const checksum = new Bun.CryptoHasher("sha256").update(archive).digest("hex");
+
+    /** Write a bundle with the given manifest packages, updates and extra entries */
+    const writeBundle = async (
+      packages: { name: string; version: string }[],
+      updates: { name: string; version: string }[],
+      entries: { name: string; data: string | Uint8Array }[],
+    ) => {
+      const manifest = {
+        format: 1,
+        created_at: new Date().toISOString(),
+        registry: "online",
+        index_commit: null,
+        base: null,
+        packages: packages.map((p) => ({ ...p, checksum })),
+        updates: updates.map((u) => ({ ...u, checksum })),
+      };
+      await Bun.write(
+        bundlePath,
+        createZip([{ name: BUNDLE_MANIFEST_FILE, data: JSON.stringify(manifest) }, ...entries]),
+      );
+    };
+
+    it("should reject names and versions that escape the cache", async () => {
+      for (const [name, version] of [
+        ["team/..", "0.1.0"],
+        ["team/lib", "../../../escape"],
+      ]) {
+        await writeBundle(
+          [{ name, version }],
+          [],
+          [
+            { name: `packages/${name}/${version}.zip`, data: archive },
+            {
+              name: `index/${name}`,
+              data: `${JSON.stringify({ name, version, checksum, deps: {} })}\n`,
+            },
+          ],
+        );
+
+        await expect(target.importBundle(bundlePath)).rejects.toThrow(
+          "invalid package name, version or checksum",
+        );
+      }
+    });
+
+    it("should reject malformed index lines", async () => {
+      for (const [line, message] of [
+        ["{not json", "index/team/lib:2"],
+        [JSON.stringify({ name: "team/lib", version: "0.1.0", checksum: 1 }), "must be strings"],
+      ]) {
+        await writeBundle(
+          [{ name: "team/lib", version: "0.1.0" }],
+          [],
+          [
+            { name: "packages/team/lib/0.1.0.zip", data: archive },
+            { name: "index/team/lib", data: `\n${line}\n` },
+          ],
+        );
+
+        const error = await target.importBundle(bundlePath).catch((err) => err);
+        expect(error).toBeInstanceOf(RegistryError);
+        expect(error.code).toBe("invalid");
+        expect(error.message).toContain(message);
+      }
+    });
+
+    it("should reject index lines for another package", async () => {
+      await target.publish(packageZip("other/pkg", "0.1.0"));
+      const served = await target.indexManager.getPackage("other", "pkg");
+      const line = `${JSON.stringify({ name: "other/pkg", version: "0.1.0", checksum, deps: {} })}\n`;
+
+      await writeBundle(
+        [{ name: "team/lib", version: "0.1.0" }],
+        [],
+        [
+          { name: "packages/team/lib/0.1.0.zip", data: archive },
+          { name: "index/team/lib", data: line },
+        ],
+      );
+      await expect(target.importBundle(bundlePath)).rejects.toThrow(
+        "index entry is for other/pkg@0.1.0",
+      );
+
+      await writeBundle(
+        [],
+        [{ name: "team/lib", version: "0.1.0" }],
+        [{ name: "index/team/lib", data: line }],
+      );
+      await expect(target.importBundle(bundlePath)).rejects.toThrow("not matching the manifest");
+
+      expect(await target.indexManager.getPackage("other", "pkg")).toEqual(served);
+    });
+  });
+
+  describe("delta bundles", () => {
+    const ids = (items: { name: string; version: string }[]) =>
+      items.map((p) => `${p.name}@${p.version}`);
+
+    it("should only include versions and index lines changed since a bundle", async () => {
+      await source.exportBundle({ ...options, patterns: ["team/*"] }, bundlePath);
+      await target.importBundle(bundlePath);
+      const base = (await source.indexManager.getLastCommit())?.hash;
+      await source.publish(packageZip("team/lib", "0.2.0"));
+      await source.yank("team", "app", "1.0.0");
+      await source.publish(packageZip("other/pkg", "2.1.0"));
+
+      const deltaPath = join(tempDir, "delta.zip");
+      const report = await source.exportBundle({ ...options, patterns: ["team/*"] }, deltaPath, {
+        since: bundlePath,
+      });
+
+      expect(report.manifest.base).toBe(base ?? null);
+      expect(ids(report.manifest.packages)).toEqual(["team/lib@0.2.0"]);
+      expect(ids(report.manifest.updates)).toEqual(["team/app@1.0.0"]);
+
+      const imported = await target.importBundle(deltaPath);
+
+      expect(imported.imported).toBe(1);
+      expect(target.packageStore.hasPackage("team", "lib", "0.2.0")).toBe(true);
+      const app = await target.indexManager.getPackage("team", "app");
+      expect(app?.versions[0].yanked).toBe(true);
+      expect(await target.indexManager.getPackage("other", "pkg")).toBeNull();
+    });
+
+    it("should refuse a delta whose base does not match the registry", async () => {
+      const base = (await source.indexManager.getLastCommit())?.hash ?? "";
+      await source.publish(packageZip("team/lib", "0.2.0"));
+      const deltaPath = join(tempDir, "delta.zip");
+      await source.exportBundle({ ...options, patterns: ["team/*"] }, deltaPath, { since: base });
+
+      await expect(target.importBundle(deltaPath)).rejects.toThrow("is a delta from");
+      expect(target.packageStore.hasPackage("team", "lib", "0.2.0")).toBe(false);
+    });
+
+    it("should reject unknown index revisions", async () => {
+      await expect(
+        source.exportBundle({ ...options, patterns: ["team/*"] }, bundlePath, {
+          since: "does-not-exist",
+        }),
+      ).rejects.toThrow("Unknown index revision");
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for CacheGc class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Registry } from "../../src/core/registry.ts";
+
+describe("CacheGc", () => {
+  let tempDir: string;
+  let registry: Registry;
+
+  /** Cache an archive of the given size, last used `daysAgo` days ago */
+  const cache = async (name: string, version: string, size: number, daysAgo = 0) => {
+    const [username, pkg] = name.split("/");
+    const path = registry.packageStore.getPackagePath(username, pkg, version);
+    await Bun.write(path, "x".repeat(size));
+    const time = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+    await utimes(path, time, time);
+  };
+
+  /** List an archive in the source index so it can be fetched again */
+  const index = async (name: string, versions: string[]) => {
+    const lines = versions.map((version) =>
+      JSON.stringify({ name, version, checksum: "c", deps: {} }),
+    );
+    await Bun.write(
+      join(registry.indexManager.getSourceIndexPath("upstream"), name),
+      `${lines.join("\n")}\n`,
+    );
+  };
+
+  const removedIds = (report: { removed: { name: string; version: string }[] }) =>
+    report.removed.map((r) => `${r.name}@${r.version}`).sort();
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-gc-test-"));
+    const initialized = await Registry.init(tempDir);
+    initialized.config.sources = [
+      {
+        name: "upstream",
+        type: "custom",
+        url: "http://localhost:1",
+        index_url: "",
+        index_type: "http",
+        enabled: true,
+      },
+    ];
+    registry = new Registry(initialized.config, tempDir);
+
+    await index("team/utils", ["0.1.0", "0.2.0", "0.3.0"]);
+    await index("other/lib", ["1.0.0"]);
+    await cache("team/utils", "0.1.0", 100, 30);
+    await cache("team/utils", "0.2.0", 100, 20);
+    await cache("team/utils", "0.3.0", 100, 1);
+    await cache("other/lib", "1.0.0", 300, 10);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should keep the newest versions of each package", async () => {
+    const report = await registry.gc({ policy: { keep_versions: 1 } });
+
+    expect(removedIds(report)).toEqual(["team/utils@0.1.0", "team/utils@0.2.0"]);
+    expect(registry.packageStore.hasPackage("team", "utils", "0.1.0")).toBe(false);
+    expect(registry.packageStore.hasPackage("team", "utils", "0.3.0")).toBe(true);
+    expect(report.freed).toBe(200);
+  });
+
+  it("should evict versions not downloaded within max_age", async () => {
+    await registry.packageStore.access.touch("team/utils@0.1.0");
+
+    const report = await registry.gc({ policy: { max_age: "15d" } });
+
+    expect(removedIds(report)).toEqual(["team/utils@0.2.0"]);
+  });
+
+  it("should evict least recently used versions to fit max_size", async () => {
+    const report = await registry.gc({ policy: { max_size: "350B" } });
+
+    expect(removedIds(report)).toEqual(["other/lib@1.0.0", "team/utils@0.1.0", "team/utils@0.2.0"]);
+    expect(report.size_after).toBe(100);
+  });
+
+  it("should prune packages that no longer match mirror.packages", async () => {
+    const report = await registry.gc({
+      policy: { prune_unmatched: true },
+      patterns: ["team/*"],
+    });
+
+    expect(removedIds(report)).toEqual(["other/lib@1.0.0"]);
+    expect(existsSync(join(registry.packageStore.path, "other", "lib"))).toBe(false);
+  });
+
+  it("should only report removals in dry-run mode", async () => {
+    const report = await registry.gc({ dryRun: true, policy: { keep_versions: 1 } });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.removed).toHaveLength(2);
+    expect(registry.packageStore.hasPackage("team", "utils", "0.1.0")).toBe(true);
+  });
+
+  it("should never evict versions no source can provide", async () => {
+    await cache("team/private", "1.0.0", 500, 100);
+
+    const report = await registry.gc({ policy: { max_age: "1d", max_size: "1B" } });
+
+    expect(registry.packageStore.hasPackage("team", "private", "1.0.0")).toBe(true);
+    expect(report.protected).toBe(1);
+  });
+});
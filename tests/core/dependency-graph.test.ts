@@ -0,0 +1,79 @@
+/**
+ * Tests for dependency graph export
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  buildDependencyGraph,
+  formatDot,
+  formatGraph,
+  formatMermaid,
+} from "../../src/core/dependency-graph.ts";
+import type { DependencyResolution } from "../../src/core/types.ts";
+
+/** app (matched) -> lib (transitive, cached) -> other/util (skipped) */
+function resolution(): DependencyResolution {
+  return {
+    packages: new Set(["team/app", "team/lib"]),
+    matched: new Set(["team/app"]),
+    edges: [
+      { from: "team/app", to: "team/lib", requirement: "0.2.0" },
+      { from: "team/app", to: "team/lib", requirement: "^0.3.1" },
+      { from: "team/lib", to: "other/util", requirement: ">=1.0.0" },
+    ],
+    versions: new Map([
+      ["team/app", new Set(["1.1.0", "1.0.0"])],
+      ["team/lib", new Set(["0.3.1"])],
+    ]),
+    skipped: new Map([["other/util", ["team/lib"]]]),
+    cached: new Set(["team/lib"]),
+  };
+}
+
+describe("buildDependencyGraph", () => {
+  it("should mark nodes and merge edges per package pair", () => {
+    const graph = buildDependencyGraph(resolution());
+
+    expect(graph.nodes).toEqual([
+      { name: "other/util", kind: "skipped", cached: false, versions: [] },
+      { name: "team/app", kind: "matched", cached: false, versions: ["1.0.0", "1.1.0"] },
+      { name: "team/lib", kind: "transitive", cached: true, versions: ["0.3.1"] },
+    ]);
+    expect(graph.edges).toEqual([
+      { from: "team/app", to: "team/lib", requirements: ["0.2.0", "^0.3.1"] },
+      { from: "team/lib", to: "other/util", requirements: [">=1.0.0"] },
+    ]);
+  });
+});
+
+describe("formatDot", () => {
+  it("should render nodes with kind styles and labelled edges", () => {
+    const dot = formatDot(buildDependencyGraph(resolution()));
+
+    expect(dot).toStartWith("digraph dependencies {");
+    expect(dot).toContain('"team/app" [label="team/app (2 versions)", style=filled');
+    expect(dot).toMatch(/"team\/lib" \[label="team\/lib@0\.3\.1", .*peripheries=2\];/);
+    expect(dot).toContain('"team/app" -> "team/lib" [label="0.2.0 | ^0.3.1"];');
+    expect(dot).toContain("dashed");
+  });
+});
+
+describe("formatMermaid", () => {
+  it("should render a flowchart with node classes", () => {
+    const mermaid = formatMermaid(buildDependencyGraph(resolution()));
+
+    expect(mermaid).toStartWith("flowchart LR\n");
+    expect(mermaid).toContain('n0["other/util"]:::skipped');
+    expect(mermaid).toContain('n2["team/lib@0.3.1 (cached)"]:::transitive');
+    expect(mermaid).toContain('n2 -->|"#gt;=1.0.0"| n0');
+    expect(mermaid).toContain("classDef matched");
+  });
+});
+
+describe("formatGraph", () => {
+  it("should render JSON", () => {
+    const graph = buildDependencyGraph(resolution());
+
+    expect(JSON.parse(formatGraph(graph, "json"))).toEqual(graph);
+  });
+});
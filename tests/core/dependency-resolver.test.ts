@@ -0,0 +1,292 @@
+/**
+ * Tests for DependencyResolver class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import DependencyResolver from "../../src/core/dependency-resolver.ts";
+import IndexManager from "../../src/core/index-manager.ts";
+import { readProjectDeps } from "../../src/core/module.ts";
+import PackageStore from "../../src/core/package-store.ts";
+import { compareVersions } from "../../src/core/semver.ts";
+import type { MirrorOptions, PackageEntry, RegistryConfig } from "../../src/core/types.ts";
+import { DEFAULT_CONFIG } from "../../src/core/types.ts";
+
+describe("DependencyResolver", () => {
+  let tempDir: string;
+  let indexManager: IndexManager;
+  let packageStore: PackageStore;
+  let resolver: DependencyResolver;
+
+  const writeIndex = async (name: string, entries: Omit<PackageEntry, "name" | "checksum">[]) => {
+    const [username, pkg] = name.split("/");
+    const lines = entries.map((e) => JSON.stringify({ name, checksum: e.version, ...e }));
+    await Bun.write(indexManager.getPackageIndexPath(username, pkg), `${lines.join("\n")}\n`);
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-resolver-test-"));
+    const config: RegistryConfig = {
+      ...DEFAULT_CONFIG,
+      registry: { ...DEFAULT_CONFIG.registry, data_dir: tempDir },
+    };
+    indexManager = new IndexManager(config);
+    packageStore = new PackageStore(config);
+    resolver = new DependencyResolver(indexManager, packageStore);
+    await indexManager.init();
+
+    await writeIndex("team/app", [
+      { version: "1.0.0", deps: { "team/lib": "0.2.0" } },
+      { version: "1.1.0", deps: { "team/lib": "^0.3.1", "other/util": "1.0.0" } },
+      { version: "1.2.0", deps: {}, yanked: true },
+    ]);
+    await writeIndex("team/lib", [
+      { version: "0.1.0", deps: {}, created_at: "2024-01-01T00:00:00Z" },
+      { version: "0.2.0", deps: {}, created_at: "2024-06-01T00:00:00Z" },
+      { version: "0.2.5", deps: { "team/core": "~1.0.0" }, created_at: "2024-09-01T00:00:00Z" },
+      { version: "0.3.0", deps: {}, created_at: "2025-01-01T00:00:00Z" },
+      { version: "0.3.1", deps: {}, created_at: "2025-02-01T00:00:00Z" },
+      { version: "0.3.2-beta", deps: {}, created_at: "2025-03-01T00:00:00Z" },
+    ]);
+    await writeIndex("team/core", [
+      { version: "1.0.0", deps: {} },
+      { version: "1.1.0", deps: {} },
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should select only the dependency versions that satisfy requirements", async () => {
+    const result = await resolver.resolve({
+      patterns: ["team/app", "team/lib", "team/core"],
+      full: false,
+      strict: false,
+      quiet: true,
+    });
+
+    expect(Array.from(result.versions.get("team/app") ?? []).sort()).toEqual(["1.0.0", "1.1.0"]);
+    expect(result.versions.get("team/lib")?.size).toBe(6);
+    expect(result.skipped.get("other/util")).toEqual(["team/app"]);
+  });
+
+  it("should record the matched packages and the dependency edges walked", async () => {
+    const result = await resolver.resolve({
+      patterns: ["team/app", "team/lib"],
+      full: false,
+      strict: false,
+      quiet: true,
+    });
+
+    expect(Array.from(result.matched).sort()).toEqual(["team/app", "team/lib"]);
+    expect(result.edges).toContainEqual({
+      from: "team/app",
+      to: "other/util",
+      requirement: "1.0.0",
+    });
+    expect(result.edges).toContainEqual({
+      from: "team/lib",
+      to: "team/core",
+      requirement: "~1.0.0",
+    });
+    expect(result.packages.has("team/core")).toBe(false);
+  });
+
+  it("should walk the deps of every selected version, not just the latest", async () => {
+    const result = await resolver.resolve({
+      patterns: ["team/app", "team/lib"],
+      full: false,
+      strict: false,
+      quiet: true,
+    });
+
+    // Only team/lib@0.2.5 depends on team/core
+    expect(result.skipped.get("team/core")).toEqual(["team/lib"]);
+  });
+
+  it("should not resolve dependencies in strict mode", async () => {
+    const result = await resolver.resolve({
+      patterns: ["team/app"],
+      full: false,
+      strict: true,
+      quiet: true,
+    });
+
+    expect(Array.from(result.packages)).toEqual(["team/app"]);
+    expect(result.skipped.size).toBe(0);
+  });
+
+  describe("version filters", () => {
+    const versionsOf = async (options: Partial<MirrorOptions>) => {
+      const result = await resolver.resolve({
+        patterns: [],
+        full: false,
+        strict: true,
+        quiet: true,
+        ...options,
+      });
+      return Array.from(result.versions.get("team/lib") ?? []).sort(compareVersions);
+    };
+
+    it("should filter by a version requirement in the pattern", async () => {
+      expect(await versionsOf({ patterns: ["team/lib@^0.2"] })).toEqual(["0.2.0", "0.2.5"]);
+      expect(await versionsOf({ patterns: ["team/*@>=0.3"] })).toEqual(["0.3.0", "0.3.1"]);
+    });
+
+    it("should keep only the newest versions", async () => {
+      expect(await versionsOf({ patterns: ["team/lib"], filter: { latest: 2 } })).toEqual([
+        "0.3.1",
+        "0.3.2-beta",
+      ]);
+      expect(
+        await versionsOf({ patterns: ["team/lib"], filter: { latest: 2, skip_prerelease: true } }),
+      ).toEqual(["0.3.0", "0.3.1"]);
+    });
+
+    it("should skip versions published before the cutoff", async () => {
+      expect(await versionsOf({ patterns: ["team/lib"], filter: { since: "2025-01-15" } })).toEqual(
+        ["0.3.1", "0.3.2-beta"],
+      );
+    });
+
+    it("should let per-pattern filters override the defaults", async () => {
+      const versions = await versionsOf({
+        patterns: [{ pattern: "team/lib", latest: 1 }],
+        filter: { latest: 3, skip_prerelease: true },
+      });
+
+      expect(versions).toEqual(["0.3.1"]);
+    });
+
+    it("should still resolve dependency versions outside the filters", async () => {
+      const result = await resolver.resolve({
+        patterns: ["team/app@1.1.0", { pattern: "team/lib", latest: 1 }],
+        full: false,
+        strict: false,
+        quiet: true,
+      });
+
+      expect(Array.from(result.versions.get("team/lib") ?? []).sort()).toEqual([
+        "0.3.1",
+        "0.3.2-beta",
+      ]);
+    });
+
+    it("should reject invalid version requirements", async () => {
+      await expect(versionsOf({ patterns: ["team/lib@not-a-range"] })).rejects.toThrow(
+        "Invalid version requirement",
+      );
+    });
+  });
+
+  describe("reverse dependencies", () => {
+    const ids = (dependents: { name: string; version: string }[]) =>
+      dependents.map((d) => `${d.name}@${d.version}`);
+
+    beforeEach(async () => {
+      const sourceIndex = indexManager.getSourceIndexPath("partner");
+      const lines = [
+        { name: "partner/tool", version: "2.0.0", checksum: "x", deps: { "team/core": "1.1.0" } },
+        { name: "team/app", version: "1.0.0", checksum: "x", deps: { "team/core": "1.0.0" } },
+      ];
+      await Bun.write(join(sourceIndex, "partner", "tool"), `${JSON.stringify(lines[0])}\n`);
+      await Bun.write(join(sourceIndex, "team", "app"), `${JSON.stringify(lines[1])}\n`);
+    });
+
+    it("should find direct dependents", async () => {
+      const dependents = await resolver.findDependents("team/lib", ["partner"]);
+
+      expect(ids(dependents)).toEqual(["team/app@1.0.0", "team/app@1.1.0"]);
+      expect(dependents[1]).toMatchObject({ requirement: "^0.3.1", source: "index", depth: 1 });
+    });
+
+    it("should limit direct dependents to requirements matching a version", async () => {
+      const dependents = await resolver.findDependents("team/lib", [], { version: "0.2.0" });
+
+      expect(ids(dependents)).toEqual(["team/app@1.0.0"]);
+    });
+
+    it("should include source indexes, preferring served index entries", async () => {
+      const dependents = await resolver.findDependents("team/core", ["partner"]);
+
+      expect(ids(dependents)).toEqual(["partner/tool@2.0.0", "team/lib@0.2.5"]);
+      expect(dependents[0].source).toBe("partner");
+    });
+
+    it("should walk dependents transitively", async () => {
+      const dependents = await resolver.findDependents("team/core", [], { transitive: true });
+
+      expect(dependents.map((d) => [d.name, d.version, d.depth, d.via])).toEqual([
+        ["team/lib", "0.2.5", 1, undefined],
+        ["team/app", "1.0.0", 2, "team/lib"],
+        ["team/app", "1.1.0", 2, "team/lib"],
+      ]);
+    });
+  });
+
+  describe("project dependencies", () => {
+    const versions = (result: { versions: Map<string, Set<string>> }) =>
+      Object.fromEntries(
+        Array.from(result.versions, ([name, selected]) => [name, Array.from(selected)]),
+      );
+
+    it("should select the minimal versions satisfying every requirement", async () => {
+      const result = await resolver.resolveProject([
+        { name: "team/app", requirement: "1.0.0", from: "me/project" },
+        { name: "team/lib", requirement: "^0.2.3", from: "me/project" },
+      ]);
+
+      // team/app@1.0.0 requires team/lib 0.2.0, the project raises it to 0.2.5
+      expect(versions(result)).toEqual({
+        "team/app": ["1.0.0"],
+        "team/lib": ["0.2.5"],
+        "team/core": ["1.0.0"],
+      });
+      expect(Array.from(result.matched).sort()).toEqual(["team/app", "team/lib"]);
+      expect(result.edges).toContainEqual({
+        from: "team/lib",
+        to: "team/core",
+        requirement: "~1.0.0",
+      });
+    });
+
+    it("should keep unresolvable dependencies without versions", async () => {
+      const result = await resolver.resolveProject([
+        { name: "team/lib", requirement: "^9.0.0", from: "me/project" },
+        { name: "nobody/missing", requirement: "1.0.0", from: "me/project" },
+      ]);
+
+      expect(Array.from(result.packages).sort()).toEqual(["nobody/missing", "team/lib"]);
+      expect(result.versions.size).toBe(0);
+    });
+
+    it("should read deps, bin-deps and local path dependencies", async () => {
+      const project = join(tempDir, "project");
+      await Bun.write(
+        join(project, "moon.mod.json"),
+        JSON.stringify({
+          name: "me/project",
+          deps: { "team/app": "1.0.0", "me/local": { path: "./local" } },
+          "bin-deps": { "team/tool": { version: "0.1.0" } },
+        }),
+      );
+      await Bun.write(
+        join(project, "local", "moon.mod.json"),
+        JSON.stringify({ name: "me/local", deps: { "team/lib": "0.3.0" } }),
+      );
+
+      expect(await readProjectDeps(project)).toEqual([
+        { name: "team/app", requirement: "1.0.0", from: "me/project" },
+        { name: "team/lib", requirement: "0.3.0", from: "me/local" },
+        { name: "team/tool", requirement: "0.1.0", from: "me/project" },
+      ]);
+    });
+
+    it("should fail without a moon.mod.json", async () => {
+      await expect(readProjectDeps(join(tempDir, "nowhere"))).rejects.toThrow("No moon.mod.json");
+    });
+  });
+});
@@ -8,8 +8,10 @@ import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import IndexManager from "../../src/core/index-manager.ts";
+import { SourceManager } from "../../src/core/source-manager.ts";
 import type { RegistryConfig } from "../../src/core/types.ts";
 import { DEFAULT_CONFIG } from "../../src/core/types.ts";
+import git from "../../src/utils/git.ts";
 
 describe("IndexManager", () => {
   let tempDir: string;
@@ -76,4 +78,163 @@ describe("IndexManager", () => {
       expect(path).toBe(join(indexManager.path, "moonbitlang", "core"));
     });
   });
+
+  describe("syncSourceIndex (http)", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: { path: string; ifNoneMatch: string | null }[];
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+      requests = [];
+      files = {
+        "/index.json": JSON.stringify({ packages: ["team/utils", "team/http"] }),
+        "/team/utils": '{"name":"team/utils","version":"0.1.0","checksum":"abc","deps":{}}\n',
+        "/team/http":
+          '{"name":"team/http","version":"1.0.0","checksum":"def","deps":{"team/utils":"0.1.0"}}',
+      };
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const path = new URL(request.url).pathname;
+          const ifNoneMatch = request.headers.get("If-None-Match");
+          requests.push({ path, ifNoneMatch });
+
+          const body = files[path];
+          if (body === undefined) return new Response("Not found", { status: 404 });
+
+          const etag = `"${Bun.hash(body).toString(16)}"`;
+          if (ifNoneMatch === etag) return new Response(null, { status: 304 });
+          return new Response(body, { headers: { ETag: etag } });
+        },
+      });
+
+      config.sources = [
+        {
+          name: "internal",
+          type: "custom",
+          url: `http://localhost:${server.port}`,
+          index_url: `http://localhost:${server.port}/`,
+          index_type: "http",
+          enabled: true,
+        },
+      ];
+      indexManager = new IndexManager(config, new SourceManager(config));
+    });
+
+    afterEach(() => {
+      server.stop(true);
+    });
+
+    it("should write package JSONL into the source index", async () => {
+      await indexManager.syncSourceIndex("internal");
+
+      const packages = await indexManager.listPackagesFromSource("internal");
+      expect(packages.sort()).toEqual(["team/http", "team/utils"]);
+
+      const metadata = await indexManager.getPackageFromSource("team", "http", "internal");
+      expect(metadata?.versions[0].deps).toEqual({ "team/utils": "0.1.0" });
+    });
+
+    it("should send conditional requests on repeated syncs", async () => {
+      await indexManager.syncSourceIndex("internal");
+      requests = [];
+
+      await indexManager.syncSourceIndex("internal");
+
+      expect(requests).toHaveLength(3);
+      expect(requests.every((r) => r.ifNoneMatch !== null)).toBe(true);
+    });
+
+    it("should skip listed names that escape the source index", async () => {
+      files["/index.json"] = JSON.stringify(["team/utils", "../victim", "team/.."]);
+      files["/../victim"] = files["/team/utils"];
+
+      await indexManager.syncSourceIndex("internal");
+
+      const indexPath = indexManager.getSourceIndexPath("internal");
+      expect(existsSync(join(indexPath, "..", "victim"))).toBe(false);
+      expect(await indexManager.listPackagesFromSource("internal")).toEqual(["team/utils"]);
+    });
+
+    it("should remove packages dropped from the listing", async () => {
+      await indexManager.syncSourceIndex("internal");
+      files["/index.json"] = JSON.stringify(["team/utils"]);
+
+      await indexManager.syncSourceIndex("internal");
+
+      expect(await indexManager.listPackagesFromSource("internal")).toEqual(["team/utils"]);
+    });
+  });
+
+  describe("mergeFromSources", () => {
+    const entry = (version: string, checksum: string, extra: Record<string, unknown> = {}) =>
+      `${JSON.stringify({ name: "team/utils", version, checksum, deps: {}, ...extra })}\n`;
+
+    beforeEach(async () => {
+      config.sources = ["primary", "secondary"].map((name, i) => ({
+        name,
+        type: "custom" as const,
+        url: "",
+        index_url: "",
+        index_type: "git" as const,
+        enabled: true,
+        priority: i * 10,
+      }));
+      indexManager = new IndexManager(config, new SourceManager(config));
+      await indexManager.init();
+
+      await Bun.write(
+        join(indexManager.getSourceIndexPath("primary"), "team", "utils"),
+        entry("0.1.0", "primary-a") + entry("0.2.0", "primary-b"),
+      );
+      await Bun.write(
+        join(indexManager.getSourceIndexPath("secondary"), "user", "team", "utils.index"),
+        entry("0.1.0", "secondary-a") + entry("0.3.0", "secondary-c"),
+      );
+    });
+
+    it("should resolve conflicting versions by source priority", async () => {
+      const changed = await indexManager.mergeFromSources(["team/utils"]);
+
+      expect(changed).toBe(1);
+      const metadata = await indexManager.getPackage("team", "utils");
+      expect(metadata?.versions.map((v) => [v.version, v.checksum])).toEqual([
+        ["0.1.0", "primary-a"],
+        ["0.2.0", "primary-b"],
+        ["0.3.0", "secondary-c"],
+      ]);
+    });
+
+    it("should keep local versions that also exist upstream", async () => {
+      await Bun.write(indexManager.getPackageIndexPath("team", "utils"), entry("0.2.0", "local"));
+
+      await indexManager.mergeFromSources(["team/utils"]);
+
+      const metadata = await indexManager.getPackage("team", "utils");
+      expect(metadata?.versions.find((v) => v.version === "0.2.0")?.checksum).toBe("local");
+    });
+
+    it("should keep locally published and yanked versions", async () => {
+      await Bun.write(
+        indexManager.getPackageIndexPath("team", "utils"),
+        entry("0.1.0", "primary-a", { yanked: true }) + entry("0.0.1", "local"),
+      );
+
+      await indexManager.mergeFromSources(["team/utils"]);
+
+      const metadata = await indexManager.getPackage("team", "utils");
+      expect(metadata?.versions.find((v) => v.version === "0.1.0")?.yanked).toBe(true);
+      expect(metadata?.versions.find((v) => v.version === "0.0.1")?.checksum).toBe("local");
+      expect(await indexManager.mergeFromSources(["team/utils"])).toBe(0);
+    });
+
+    it("should not commit source indexes into the served index", async () => {
+      await indexManager.mergeFromSources(["team/utils"]);
+      await indexManager.commit("Merge");
+
+      const tracked = await git.run(["ls-files"], indexManager.path);
+      expect(tracked.stdout.split("\n").sort()).toEqual([".gitignore", "team/utils"]);
+      expect(existsSync(join(indexManager.path, ".git", "info", "refs"))).toBe(true);
+    });
+  });
 });
@@ -8,6 +8,7 @@ import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import PackageStore from "../../src/core/package-store.ts";
+import { SourceManager } from "../../src/core/source-manager.ts";
 import type { RegistryConfig } from "../../src/core/types.ts";
 import { DEFAULT_CONFIG } from "../../src/core/types.ts";
 
@@ -125,4 +126,158 @@ describe("PackageStore", () => {
       expect(size).toBe(300);
     });
   });
+
+  describe("downloadPackage", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let responses: number[];
+    let hits: number;
+    let ranges: (string | null)[];
+    let supportsRange: boolean;
+    let stall: boolean;
+    const archive = new TextEncoder().encode("zip-data");
+    const archiveChecksum = new Bun.CryptoHasher("sha256").update(archive).digest("hex");
+
+    beforeEach(() => {
+      hits = 0;
+      responses = [];
+      ranges = [];
+      supportsRange = true;
+      stall = false;
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const status = responses[hits++] ?? 200;
+          if (status !== 200) return new Response("error", { status });
+          if (stall) {
+            // Send the first bytes, then never finish the body
+            const body = new ReadableStream({
+              start(controller) {
+                controller.enqueue(archive.slice(0, 3));
+              },
+            });
+            return new Response(body);
+          }
+
+          const range = request.headers.get("Range");
+          ranges.push(range);
+          const start = Number(range?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+          if (supportsRange && start > 0) {
+            return new Response(archive.slice(start), {
+              status: 206,
+              headers: {
+                "Content-Range": `bytes ${start}-${archive.length - 1}/${archive.length}`,
+              },
+            });
+          }
+          return new Response(archive);
+        },
+      });
+      config.sources = [
+        {
+          name: "flaky",
+          type: "custom",
+          url: `http://localhost:${server.port}`,
+          index_url: "",
+          index_type: "http",
+          package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+          enabled: true,
+        },
+      ];
+      packageStore = new PackageStore(config, new SourceManager(config));
+    });
+
+    afterEach(() => {
+      server.stop(true);
+    });
+
+    it("should retry server errors with backoff", async () => {
+      responses = [503, 502];
+      const retries: number[] = [];
+
+      const path = await packageStore.downloadPackage(
+        "team",
+        "utils",
+        "0.1.0",
+        undefined,
+        "flaky",
+        {
+          retryDelayMs: 1,
+          onRetry: (_, attempt) => retries.push(attempt),
+        },
+      );
+
+      expect(hits).toBe(3);
+      expect(retries).toEqual([1, 2]);
+      expect(await Bun.file(path).text()).toBe("zip-data");
+    });
+
+    it("should not retry client errors", async () => {
+      responses = [404];
+
+      await expect(
+        packageStore.downloadPackage("team", "utils", "0.1.0", undefined, "flaky", {
+          retryDelayMs: 1,
+        }),
+      ).rejects.toThrow("404");
+      expect(hits).toBe(1);
+    });
+
+    it("should give up after the configured retries", async () => {
+      responses = [500, 500, 500];
+
+      await expect(
+        packageStore.downloadPackage("team", "utils", "0.1.0", undefined, "flaky", {
+          retries: 1,
+          retryDelayMs: 1,
+        }),
+      ).rejects.toThrow("500");
+      expect(hits).toBe(2);
+      expect(packageStore.hasPackage("team", "utils", "0.1.0")).toBe(false);
+    });
+
+    it("should resume a partial download with a Range request", async () => {
+      const path = packageStore.getPackagePath("team", "utils", "0.1.0");
+      await Bun.write(`${path}.part`, archive.slice(0, 3));
+
+      await packageStore.downloadPackage("team", "utils", "0.1.0", archiveChecksum, "flaky");
+
+      expect(ranges).toEqual(["bytes=3-"]);
+      expect(await Bun.file(path).text()).toBe("zip-data");
+      expect(existsSync(`${path}.part`)).toBe(false);
+    });
+
+    it("should restart when the source ignores the Range request", async () => {
+      supportsRange = false;
+      const path = packageStore.getPackagePath("team", "utils", "0.1.0");
+      await Bun.write(`${path}.part`, "garbage");
+
+      await packageStore.downloadPackage("team", "utils", "0.1.0", archiveChecksum, "flaky");
+
+      expect(await Bun.file(path).text()).toBe("zip-data");
+    });
+
+    it("should not cache an archive with a bad checksum", async () => {
+      const path = packageStore.getPackagePath("team", "utils", "0.1.0");
+
+      await expect(
+        packageStore.downloadPackage("team", "utils", "0.1.0", "0".repeat(64), "flaky"),
+      ).rejects.toThrow("Checksum verification failed");
+      expect(existsSync(path)).toBe(false);
+      expect(existsSync(`${path}.part`)).toBe(false);
+    });
+
+    it("should time out a stalled download and keep the partial file", async () => {
+      stall = true;
+      const path = packageStore.getPackagePath("team", "utils", "0.1.0");
+
+      await expect(
+        packageStore.downloadPackage("team", "utils", "0.1.0", undefined, "flaky", {
+          retries: 0,
+          timeoutMs: 100,
+        }),
+      ).rejects.toThrow("stalled");
+      expect(existsSync(path)).toBe(false);
+      expect(await Bun.file(`${path}.part`).text()).toBe("zip");
+    });
+  });
 });
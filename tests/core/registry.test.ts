@@ -7,7 +7,19 @@ import { existsSync } from "node:fs";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { RegistryError } from "../../src/core/errors.ts";
+import { readMirrorPlan, writeMirrorPlan } from "../../src/core/mirror-plan.ts";
 import { Registry } from "../../src/core/registry.ts";
+import git from "../../src/utils/git.ts";
+import { createZip } from "../../src/utils/zip.ts";
+
+/** Build a package archive containing a moon.mod.json */
+function packageZip(manifest: Record<string, unknown>): Uint8Array {
+  return createZip([
+    { name: "moon.mod.json", data: JSON.stringify(manifest) },
+    { name: "src/lib.mbt", data: 'pub fn hello() -> String { "hello" }\n' },
+  ]);
+}
 
 describe("Registry", () => {
   let tempDir: string;
@@ -80,5 +92,406 @@ describe("Registry", () => {
       expect(stats.cachedVersions).toBe(0);
       expect(stats.cacheSize).toBe(0);
     });
+
+    it("should break down cache usage by package", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+      await registry.publish(packageZip({ name: "team/utils", version: "0.2.0" }));
+      await registry.publish(packageZip({ name: "team/core", version: "1.0.0" }));
+
+      const stats = await registry.getStats({ top: 1 });
+
+      expect(stats.packages).toBe(2);
+      expect(stats.cachedVersions).toBe(3);
+      expect(stats.largest).toHaveLength(1);
+      expect(stats.largest[0]).toMatchObject({
+        name: "team/utils",
+        versions: 2,
+        latest: "0.2.0",
+        cachedVersions: 2,
+      });
+      expect(stats.index.lastSync).toBeNull();
+    });
+  });
+
+  describe("listPackageStats", () => {
+    it("should list packages matching a glob", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+      await registry.publish(packageZip({ name: "other/lib", version: "1.0.0" }));
+
+      const packages = await registry.listPackageStats("team/*");
+
+      expect(packages.map((p) => p.name)).toEqual(["team/utils"]);
+      expect(packages[0].cacheSize).toBeGreaterThan(0);
+    });
+  });
+
+  describe("getPackageInfo", () => {
+    it("should list versions newest first with their cache state", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+      await registry.publish(packageZip({ name: "team/utils", version: "0.2.0" }));
+      await registry.yank("team", "utils", "0.2.0");
+      await registry.packageStore.removePackage("team", "utils", "0.1.0");
+
+      const info = await registry.getPackageInfo("team", "utils");
+
+      expect(info?.origin).toBe("index");
+      expect(info?.latest).toBe("0.1.0");
+      expect(info?.details.map((v) => [v.version, v.cached, v.yanked ?? false])).toEqual([
+        ["0.2.0", true, true],
+        ["0.1.0", false, false],
+      ]);
+      expect(info?.cachedVersions).toBe(1);
+    });
+
+    it("should return null for unknown packages", async () => {
+      const registry = await Registry.init(tempDir);
+
+      expect(await registry.getPackageInfo("team", "missing")).toBeNull();
+    });
+  });
+
+  describe("publish", () => {
+    it("should store the archive and add an index entry", async () => {
+      const registry = await Registry.init(tempDir);
+
+      const entry = await registry.publish(
+        packageZip({ name: "team/utils", version: "0.1.0", deps: { "moonbitlang/x": "0.4.6" } }),
+      );
+
+      expect(entry.name).toBe("team/utils");
+      expect(entry.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(registry.packageStore.hasPackage("team", "utils", "0.1.0")).toBe(true);
+
+      const metadata = await registry.getPackage("team", "utils");
+      expect(metadata?.versions).toHaveLength(1);
+      expect(metadata?.versions[0].deps).toEqual({ "moonbitlang/x": "0.4.6" });
+    });
+
+    it("should reject a version that is already published", async () => {
+      const registry = await Registry.init(tempDir);
+      const data = packageZip({ name: "team/utils", version: "0.1.0" });
+      await registry.publish(data);
+
+      const error = await registry.publish(data).catch((err) => err);
+
+      expect(error).toBeInstanceOf(RegistryError);
+      expect(error.code).toBe("conflict");
+    });
+
+    it("should serialize concurrent publishes and yanks", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+
+      await Promise.all([
+        ...["0.2.0", "0.3.0", "0.4.0", "0.5.0"].map((version) =>
+          registry.publish(packageZip({ name: "team/utils", version })),
+        ),
+        registry.yank("team", "utils", "0.1.0"),
+      ]);
+
+      const metadata = await registry.getPackage("team", "utils");
+      expect(metadata?.versions.map((v) => v.version).sort()).toEqual([
+        "0.1.0",
+        "0.2.0",
+        "0.3.0",
+        "0.4.0",
+        "0.5.0",
+      ]);
+      expect(metadata?.versions.find((v) => v.version === "0.1.0")?.yanked).toBe(true);
+      expect(await git.hasChanges(registry.indexManager.path)).toBe(false);
+    });
+
+    it("should reject archives without a valid moon.mod.json", async () => {
+      const registry = await Registry.init(tempDir);
+
+      const missing = await registry
+        .publish(createZip([{ name: "README.md", data: "# hi" }]))
+        .catch((err) => err);
+      const badName = await registry
+        .publish(packageZip({ name: "utils", version: "0.1.0" }))
+        .catch((err) => err);
+
+      expect(missing.code).toBe("invalid");
+      expect(badName.code).toBe("invalid");
+    });
+
+    it("should reject path deps and deps without a version requirement", async () => {
+      const registry = await Registry.init(tempDir);
+
+      for (const [dep, message] of [
+        [{ path: "../x" }, "path or local dependency"],
+        [1, "must have a version requirement"],
+        ["not a range", "must have a version requirement"],
+      ]) {
+        const error = await registry
+          .publish(packageZip({ name: "team/utils", version: "0.1.0", deps: { "team/x": dep } }))
+          .catch((err) => err);
+
+        expect(error.code).toBe("invalid");
+        expect(error.message).toContain(message);
+      }
+      expect(await registry.getPackage("team", "utils")).toBeNull();
+    });
+  });
+
+  describe("yank", () => {
+    it("should set and clear the yanked flag in the index", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+
+      expect(await registry.yank("team", "utils", "0.1.0")).toBe(true);
+      expect((await registry.getPackage("team", "utils"))?.versions[0].yanked).toBe(true);
+      expect(await registry.yank("team", "utils", "0.1.0")).toBe(false);
+
+      expect(await registry.unyank("team", "utils", "0.1.0")).toBe(true);
+      expect((await registry.getPackage("team", "utils"))?.versions[0].yanked).toBeUndefined();
+    });
+
+    it("should keep yanked artifacts in the package store", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+
+      await registry.yank("team", "utils", "0.1.0");
+
+      expect(registry.packageStore.getPackageFile("team", "utils", "0.1.0")).not.toBeNull();
+    });
+
+    it("should fail for unknown versions", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.1.0" }));
+
+      const error = await registry.yank("team", "utils", "9.9.9").catch((err) => err);
+
+      expect(error).toBeInstanceOf(RegistryError);
+      expect(error.code).toBe("not_found");
+    });
+  });
+
+  describe("verify", () => {
+    const good = packageZip({ name: "team/utils", version: "0.1.0" });
+
+    it("should report mismatched, orphaned and missing archives", async () => {
+      const registry = await Registry.init(tempDir);
+      await registry.publish(good);
+      await registry.publish(packageZip({ name: "team/utils", version: "0.2.0" }));
+      await registry.publish(packageZip({ name: "team/utils", version: "0.3.0" }));
+
+      const store = registry.packageStore;
+      await Bun.write(store.getPackagePath("team", "utils", "0.1.0"), "corrupt");
+      await rm(store.getPackagePath("team", "utils", "0.2.0"));
+      await Bun.write(store.getPackagePath("other", "pkg", "1.0.0"), "stray");
+
+      const report = await registry.verify();
+
+      expect(report.checked).toBe(3);
+      expect(report.ok).toBe(1);
+      expect(report.issues.map((i) => [i.kind, `${i.name}@${i.version}`]).sort()).toEqual([
+        ["mismatch", "team/utils@0.1.0"],
+        ["missing", "team/utils@0.2.0"],
+        ["orphan", "other/pkg@1.0.0"],
+      ]);
+    });
+
+    it("should re-download mismatched archives when repairing", async () => {
+      const server = Bun.serve({ port: 0, fetch: () => new Response(good) });
+      try {
+        const initialized = await Registry.init(tempDir);
+        await initialized.publish(good);
+        initialized.config.sources = [
+          {
+            name: "upstream",
+            type: "custom",
+            url: `http://localhost:${server.port}`,
+            index_url: "",
+            index_type: "http",
+            package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+            enabled: true,
+          },
+        ];
+        const registry = new Registry(initialized.config, tempDir);
+        const path = registry.packageStore.getPackagePath("team", "utils", "0.1.0");
+        await Bun.write(path, "corrupt");
+
+        const report = await registry.verify({ repair: true });
+
+        expect(report.issues).toHaveLength(1);
+        expect(report.issues[0].repaired).toBe(true);
+        expect(new Uint8Array(await Bun.file(path).arrayBuffer())).toEqual(new Uint8Array(good));
+      } finally {
+        server.stop(true);
+      }
+    });
+    it("should only report missing archives that were expected", async () => {
+      const initialized = await Registry.init(tempDir);
+      await initialized.publish(good);
+      await initialized.publish(packageZip({ name: "team/utils", version: "0.2.0" }));
+      await initialized.publish(packageZip({ name: "team/utils", version: "0.3.0" }));
+      initialized.config.sources = [
+        {
+          name: "upstream",
+          type: "custom",
+          url: "http://localhost:1",
+          index_url: "",
+          index_type: "http",
+          package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+          enabled: true,
+        },
+      ];
+      const registry = new Registry(initialized.config, tempDir);
+      const served = registry.indexManager.getPackageIndexPath("team", "utils");
+      await Bun.write(
+        join(registry.indexManager.getSourceIndexPath("upstream"), "team/utils"),
+        Bun.file(served),
+      );
+
+      const store = registry.packageStore;
+      await rm(store.getPackagePath("team", "utils", "0.2.0"));
+      await rm(store.getPackagePath("team", "utils", "0.3.0"));
+      await store.access.touch("team/utils@0.3.0");
+
+      const report = await registry.verify();
+
+      expect(report.issues.map((i) => `${i.kind} ${i.name}@${i.version}`)).toEqual([
+        "missing team/utils@0.3.0",
+      ]);
+    });
+
+    it("should keep corrupt archives that cannot be downloaded again", async () => {
+      const initialized = await Registry.init(tempDir);
+      await initialized.publish(good);
+      initialized.config.sources = [
+        {
+          name: "upstream",
+          type: "custom",
+          url: "http://localhost:1",
+          index_url: "",
+          index_type: "http",
+          package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+          enabled: true,
+        },
+      ];
+      const registry = new Registry(initialized.config, tempDir);
+      const path = registry.packageStore.getPackagePath("team", "utils", "0.1.0");
+      await Bun.write(path, "corrupt");
+
+      const report = await registry.verify({ repair: true });
+
+      expect(report.issues[0].repaired).toBe(false);
+      expect(await Bun.file(path).text()).toBe("corrupt");
+    });
+  });
+
+  describe("mirror plans", () => {
+    const archive = packageZip({ name: "team/utils", version: "0.2.0" });
+    const checksum = new Bun.CryptoHasher("sha256").update(archive).digest("hex");
+    let server: ReturnType<typeof Bun.serve>;
+    let downloads: number;
+
+    beforeEach(() => {
+      downloads = 0;
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          if (request.method === "GET") downloads++;
+          return new Response(archive);
+        },
+      });
+    });
+
+    afterEach(() => {
+      server.stop(true);
+    });
+
+    /** Create a registry whose "upstream" source index lists team/utils */
+    const setup = async () => {
+      const initialized = await Registry.init(tempDir);
+      initialized.config.sources = [
+        {
+          name: "upstream",
+          type: "custom",
+          url: `http://localhost:${server.port}`,
+          index_url: "",
+          index_type: "http",
+          package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+          enabled: true,
+        },
+      ];
+      initialized.config.default_source = "upstream";
+      const registry = new Registry(initialized.config, tempDir);
+      const lines = ["0.1.0", "0.2.0"].map((version) =>
+        JSON.stringify({ name: "team/utils", version, checksum, deps: {} }),
+      );
+      await Bun.write(
+        join(registry.indexManager.getSourceIndexPath("upstream"), "team/utils"),
+        `${lines.join("\n")}\n`,
+      );
+      await Bun.write(registry.packageStore.getPackagePath("team", "utils", "0.1.0"), "cached");
+      return registry;
+    };
+
+    const options = {
+      patterns: ["team/utils"],
+      full: false,
+      strict: false,
+      quiet: true,
+      skipIndexSync: true,
+    };
+
+    it("should plan downloads with estimated sizes without downloading", async () => {
+      const registry = await setup();
+
+      const plan = await registry.planMirror({ ...options, estimateSizes: true });
+
+      expect(plan.source).toBe("upstream");
+      expect(plan.cached).toEqual([{ name: "team/utils", version: "0.1.0" }]);
+      expect(plan.download).toEqual([
+        {
+          name: "team/utils",
+          version: "0.2.0",
+          checksum,
+          source: "upstream",
+          size: archive.length,
+        },
+      ]);
+      expect(plan.total_bytes).toBe(archive.length);
+      expect(downloads).toBe(0);
+      expect(registry.packageStore.hasPackage("team", "utils", "0.2.0")).toBe(false);
+    });
+
+    it("should apply a plan read back from a file", async () => {
+      const registry = await setup();
+      const path = join(tempDir, "plan.json");
+      await writeMirrorPlan(path, await registry.planMirror(options));
+
+      await registry.applyMirrorPlan(await readMirrorPlan(path));
+
+      expect(downloads).toBe(1);
+      expect(registry.packageStore.hasPackage("team", "utils", "0.2.0")).toBe(true);
+      const metadata = await registry.indexManager.getPackage("team", "utils");
+      expect(metadata?.versions.map((v) => v.version)).toEqual(["0.1.0", "0.2.0"]);
+    });
+
+    it("should reject plan files with an unknown format", async () => {
+      const path = join(tempDir, "plan.json");
+      await Bun.write(path, JSON.stringify({ format: 99, source: "upstream", download: [] }));
+
+      await expect(readMirrorPlan(path)).rejects.toThrow("Unsupported plan format");
+    });
+
+    it("should reject plan entries whose name or version escapes the cache", async () => {
+      const path = join(tempDir, "plan.json");
+      for (const [name, version] of [
+        ["team/..", "0.1.0"],
+        ["team/utils", "../../../escape"],
+      ]) {
+        const download = [{ name, version, checksum }];
+        await Bun.write(path, JSON.stringify({ format: 1, source: "upstream", download }));
+
+        await expect(readMirrorPlan(path)).rejects.toThrow("invalid download entry");
+      }
+    });
   });
 });
@@ -0,0 +1,97 @@
+/**
+ * Tests for SearchIndex class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Registry } from "../../src/core/registry.ts";
+import { createZip } from "../../src/utils/zip.ts";
+
+describe("SearchIndex", () => {
+  let tempDir: string;
+  let registry: Registry;
+
+  /** Publish a package with the given manifest fields */
+  const publish = (manifest: Record<string, unknown>) =>
+    registry.publish(createZip([{ name: "moon.mod.json", data: JSON.stringify(manifest) }]));
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-search-test-"));
+    registry = await Registry.init(tempDir);
+
+    await publish({
+      name: "team/json",
+      version: "0.1.0",
+      description: "Fast JSON parser",
+      keywords: ["serialization"],
+    });
+    await publish({ name: "team/yaml", version: "0.1.0", description: "YAML with JSON output" });
+    await publish({ name: "json/schema", version: "1.0.0", keywords: ["validation"] });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should rank name matches above usernames and descriptions", async () => {
+    const results = await registry.search("json");
+
+    expect(results.map((r) => r.name)).toEqual(["team/json", "json/schema", "team/yaml"]);
+    expect(results[0]).toMatchObject({
+      description: "Fast JSON parser",
+      keywords: ["serialization"],
+      version: "0.1.0",
+    });
+  });
+
+  it("should require every term to match", async () => {
+    expect((await registry.search("json validation")).map((r) => r.name)).toEqual(["json/schema"]);
+    expect(await registry.search("json xml")).toEqual([]);
+  });
+
+  it("should limit the number of results", async () => {
+    expect(await registry.search("json", { limit: 1 })).toHaveLength(1);
+  });
+
+  it("should re-index only packages whose newest cached version changed", async () => {
+    await registry.search("json");
+
+    await publish({ name: "team/json", version: "0.2.0", description: "Streaming JSON parser" });
+
+    expect((await registry.search("streaming")).map((r) => r.name)).toEqual(["team/json"]);
+    expect(await registry.searchIndex.update(["team/json", "team/yaml"])).toBe(0);
+  });
+
+  it("should build the index on the first change", async () => {
+    expect(registry.searchIndex.exists()).toBe(true);
+    expect(await registry.searchIndex.update(["team/json"])).toBe(0);
+  });
+
+  it("should re-read an index updated by another process", async () => {
+    await registry.search("json");
+
+    const other = await Registry.load(tempDir);
+    await other.publish(
+      createZip([
+        {
+          name: "moon.mod.json",
+          data: JSON.stringify({ name: "team/toml", version: "0.1.0", description: "TOML" }),
+        },
+      ]),
+    );
+
+    expect((await registry.search("toml")).map((r) => r.name)).toEqual(["team/toml"]);
+  });
+
+  it("should drop packages that are no longer served or cached on refresh", async () => {
+    await registry.search("json");
+    await registry.packageStore.removePackage("team", "yaml", "0.1.0");
+    await rm(registry.indexManager.getPackageIndexPath("team", "yaml"));
+
+    await registry.searchIndex.refresh();
+
+    expect((await registry.search("json")).map((r) => r.name)).not.toContain("team/yaml");
+  });
+});
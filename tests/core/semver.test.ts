@@ -0,0 +1,104 @@
+/**
+ * Tests for semantic version handling
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  compareVersions,
+  maxSatisfying,
+  parseVersion,
+  satisfies,
+  sortVersions,
+} from "../../src/core/semver.ts";
+
+describe("semver", () => {
+  describe("parseVersion", () => {
+    it("should parse prerelease and build metadata", () => {
+      expect(parseVersion("1.2.3-beta.2+build.5")).toEqual({
+        major: 1,
+        minor: 2,
+        patch: 3,
+        prerelease: ["beta", 2],
+        build: ["build", "5"],
+      });
+    });
+
+    it("should reject invalid versions", () => {
+      expect(parseVersion("1.2")).toBeNull();
+      expect(parseVersion("latest")).toBeNull();
+    });
+  });
+
+  describe("compareVersions", () => {
+    it("should order by SemVer precedence", () => {
+      const versions = [
+        "1.0.0",
+        "1.0.0-rc.1",
+        "0.10.0",
+        "1.0.0-alpha.beta",
+        "0.9.1",
+        "1.0.0-alpha",
+        "1.0.0-beta.11",
+        "1.0.0-alpha.1",
+        "1.0.0-beta.2",
+        "1.0.0-beta",
+      ];
+
+      expect(sortVersions(versions)).toEqual([
+        "0.9.1",
+        "0.10.0",
+        "1.0.0-alpha",
+        "1.0.0-alpha.1",
+        "1.0.0-alpha.beta",
+        "1.0.0-beta",
+        "1.0.0-beta.2",
+        "1.0.0-beta.11",
+        "1.0.0-rc.1",
+        "1.0.0",
+      ]);
+    });
+
+    it("should ignore build metadata", () => {
+      expect(compareVersions("1.0.0+a", "1.0.0+b")).toBe(0);
+    });
+  });
+
+  describe("satisfies", () => {
+    it("should treat bare versions as caret requirements", () => {
+      expect(satisfies("0.4.9", "0.4.6")).toBe(true);
+      expect(satisfies("0.5.0", "0.4.6")).toBe(false);
+      expect(satisfies("0.4.5", "0.4.6")).toBe(false);
+      expect(satisfies("1.9.0", "1.2")).toBe(true);
+      expect(satisfies("0.0.4", "^0.0.3")).toBe(false);
+    });
+
+    it("should support tilde, exact and comparison operators", () => {
+      expect(satisfies("1.2.9", "~1.2.3")).toBe(true);
+      expect(satisfies("1.3.0", "~1.2.3")).toBe(false);
+      expect(satisfies("1.2.3", "=1.2.3")).toBe(true);
+      expect(satisfies("1.2.4", "=1.2.3")).toBe(false);
+      expect(satisfies("1.5.0", ">=1.2, <2")).toBe(true);
+      expect(satisfies("2.0.0", ">=1.2 <2")).toBe(false);
+      expect(satisfies("3.1.0", "^1.0 || ^3.0")).toBe(true);
+      expect(satisfies("7.0.0", "*")).toBe(true);
+    });
+
+    it("should only match prereleases named by the requirement", () => {
+      expect(satisfies("1.1.0-beta", "^1.0.0")).toBe(false);
+      expect(satisfies("2.0.0-alpha", "<2.0.0")).toBe(false);
+      expect(satisfies("1.1.0-beta.2", "^1.1.0-beta.1")).toBe(true);
+      expect(satisfies("1.1.0", "^1.1.0-beta.1")).toBe(true);
+    });
+
+    it("should reject invalid requirements", () => {
+      expect(satisfies("1.0.0", "not a version")).toBe(false);
+    });
+  });
+
+  describe("maxSatisfying", () => {
+    it("should return the highest matching version", () => {
+      expect(maxSatisfying(["0.4.1", "0.4.10", "0.4.2", "0.5.0"], "^0.4")).toBe("0.4.10");
+      expect(maxSatisfying(["0.4.1"], "^1.0")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for TokenStore class
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, stat, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TOKEN_PREFIX, TokenStore, hasScope, parseScopes } from "../../src/core/token-store.ts";
+
+describe("TokenStore", () => {
+  let tempDir: string;
+  let path: string;
+  let store: TokenStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "moonbit-tokens-test-"));
+    path = join(tempDir, "tokens.json");
+    store = new TokenStore(path);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should create tokens and only store their hash", async () => {
+    const { token, record } = await store.create("ci", ["publish"]);
+
+    expect(token.startsWith(TOKEN_PREFIX)).toBe(true);
+    expect(record.scopes).toEqual(["publish"]);
+
+    const contents = await readFile(path, "utf-8");
+    expect(contents).not.toContain(token);
+    expect(contents).toContain(record.hash);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it("should authenticate tokens until they are revoked", async () => {
+    const { token, record } = await store.create("ci", ["publish"]);
+
+    expect((await store.authenticate(token))?.id).toBe(record.id);
+    expect(await store.authenticate(`${TOKEN_PREFIX}unknown`)).toBeNull();
+
+    await store.revoke("ci");
+    expect(await store.authenticate(token)).toBeNull();
+  });
+
+  it("should reject expired tokens", async () => {
+    const { token } = await store.create("temp", ["download"], {
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    expect(await store.authenticate(token)).toBeNull();
+  });
+
+  it("should refuse duplicate names and unknown revocations", async () => {
+    await store.create("ci", ["publish"]);
+
+    await expect(store.create("ci", ["download"])).rejects.toThrow("already exists");
+    await expect(store.revoke("missing")).rejects.toThrow("Token not found");
+  });
+
+  it("should pick up tokens created by another process", async () => {
+    await store.list();
+    const other = new TokenStore(path);
+    const { token } = await other.create("cli", ["read-index"]);
+    // Make sure the mtime differs even on coarse-grained filesystems
+    const later = new Date(Date.now() + 5000);
+    await utimes(path, later, later);
+
+    expect(await store.authenticate(token)).not.toBeNull();
+  });
+
+  it("should parse and check scopes", () => {
+    expect(parseScopes("read-index, download,download")).toEqual(["read-index", "download"]);
+    expect(() => parseScopes("write")).toThrow("Invalid token scope");
+    expect(() => parseScopes("")).toThrow("at least one scope");
+
+    expect(hasScope({ scopes: ["admin"] }, "publish")).toBe(true);
+    expect(hasScope({ scopes: ["download"] }, "publish")).toBe(false);
+  });
+});
@@ -3,11 +3,14 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync } from "node:fs";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { $ } from "bun";
 import { Registry } from "../../src/core/registry.ts";
 import createServer from "../../src/server/index.ts";
+import { createZip } from "../../src/utils/zip.ts";
 
 describe("Server Routes", () => {
   let tempDir: string;
@@ -38,6 +41,59 @@ describe("Server Routes", () => {
     });
   });
 
+  describe("HTML browser", () => {
+    const html = { headers: { Accept: "text/html,application/xhtml+xml" } };
+
+    beforeEach(async () => {
+      await registry.publish(
+        createZip([
+          {
+            name: "moon.mod.json",
+            data: JSON.stringify({
+              name: "team/utils",
+              version: "0.1.0",
+              deps: { "team/core": "1.0.0" },
+            }),
+          },
+          { name: "README.md", data: "# Utils\n\nHelpers for <everything>." },
+        ]),
+      );
+      await registry.publish(
+        createZip([
+          { name: "moon.mod.json", data: JSON.stringify({ name: "team/utils", version: "0.2.0" }) },
+        ]),
+      );
+      await registry.yank("team", "utils", "0.2.0");
+    });
+
+    it("should list packages when the client accepts HTML", async () => {
+      const response = await handler(new Request("http://localhost/", html));
+
+      expect(response.headers.get("Content-Type")).toContain("text/html");
+      const body = await response.text();
+      expect(body).toContain('<a href="/packages/team/utils">team/utils</a>');
+      expect(body).not.toMatch(/<(script|link)\b/);
+    });
+
+    it("should show the latest non-yanked version with its README and deps", async () => {
+      const response = await handler(new Request("http://localhost/packages/team/utils", html));
+
+      expect(response.status).toBe(200);
+      const body = await response.text();
+      expect(body).toContain("moon add team/utils@0.1.0");
+      expect(body).toContain('<a href="/packages/team/core">team/core</a>');
+      expect(body).toContain("<h1>Utils</h1>");
+      expect(body).toContain("Helpers for &lt;everything&gt;.");
+      expect(body).toContain('<span class="yanked">yanked</span>');
+    });
+
+    it("should return 404 pages for unknown versions", async () => {
+      const response = await handler(new Request("http://localhost/packages/team/utils/9.9.9"));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe("GET /health", () => {
     it("should return OK", async () => {
       const request = new Request("http://localhost/health");
@@ -57,6 +113,31 @@ describe("Server Routes", () => {
     });
   });
 
+  describe("GET /api/sync/status", () => {
+    it("should report auto-sync as disabled by default", async () => {
+      const response = await handler(new Request("http://localhost/api/sync/status"));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ enabled: false });
+    });
+  });
+
+  describe("GET /api/stats", () => {
+    it("should return registry statistics", async () => {
+      const response = await handler(new Request("http://localhost/api/stats"));
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as {
+        packages: number;
+        sources: unknown;
+        largest: unknown[];
+      };
+      expect(body.packages).toBe(0);
+      expect(Array.isArray(body.sources)).toBe(true);
+      expect(body.largest).toEqual([]);
+    });
+  });
+
   describe("GET /user/:username/:package", () => {
     it("should return 404 for non-existent package", async () => {
       const request = new Request("http://localhost/user/test/nonexistent");
@@ -87,6 +168,656 @@ describe("Server Routes", () => {
     });
   });
 
+  describe("POST /api/publish", () => {
+    const archive = createZip([
+      { name: "moon.mod.json", data: JSON.stringify({ name: "team/utils", version: "0.1.0" }) },
+    ]);
+
+    function publishRequest(token?: string): Request {
+      const headers = new Headers({ "Content-Type": "application/zip" });
+      if (token) headers.set("Authorization", `Bearer ${token}`);
+      return new Request("http://localhost/api/publish", {
+        method: "POST",
+        headers,
+        body: archive,
+      });
+    }
+
+    it("should return 403 when no publish token is configured", async () => {
+      const response = await handler(publishRequest("secret"));
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should reject requests with a wrong token", async () => {
+      registry.config.server.publish_token = "secret";
+
+      const response = await handler(publishRequest("wrong"));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should publish the package with a valid token", async () => {
+      registry.config.server.publish_token = "secret";
+
+      const response = await handler(publishRequest("secret"));
+
+      expect(response.status).toBe(201);
+      const body = (await response.json()) as { name: string; version: string };
+      expect(body.name).toBe("team/utils");
+      expect(registry.packageStore.hasPackage("team", "utils", "0.1.0")).toBe(true);
+
+      const again = await handler(publishRequest("secret"));
+      expect(again.status).toBe(409);
+    });
+
+    it("should publish with an API token that has the publish scope", async () => {
+      const { token } = await registry.tokens.create("ci", ["publish"]);
+
+      const response = await handler(publishRequest(token));
+
+      expect(response.status).toBe(201);
+    });
+
+    it("should reject API tokens without the publish scope", async () => {
+      const { token } = await registry.tokens.create("reader", ["read-index", "download"]);
+
+      const response = await handler(publishRequest(token));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("require_auth", () => {
+    beforeEach(() => {
+      registry.config.server.require_auth = true;
+    });
+
+    it("should reject anonymous requests with a challenge", async () => {
+      const response = await handler(new Request("http://localhost/api/packages"));
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("WWW-Authenticate")).toStartWith("Bearer");
+
+      const git = await handler(new Request("http://localhost/git/index/info/refs"));
+      expect(git.status).toBe(401);
+      expect(git.headers.get("WWW-Authenticate")).toStartWith("Basic");
+    });
+
+    it("should keep the health check public", async () => {
+      const response = await handler(new Request("http://localhost/health"));
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should accept tokens as Bearer or Basic credentials", async () => {
+      const { token } = await registry.tokens.create("reader", ["read-index"]);
+
+      const bearer = await handler(
+        new Request("http://localhost/api/packages", {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      );
+      expect(bearer.status).toBe(200);
+
+      const basic = await handler(
+        new Request("http://localhost/api/packages", {
+          headers: { Authorization: `Basic ${btoa(`git:${token}`)}` },
+        }),
+      );
+      expect(basic.status).toBe(200);
+    });
+
+    it("should reject tokens lacking the required scope", async () => {
+      const { token } = await registry.tokens.create("indexer", ["read-index"]);
+
+      const response = await handler(
+        new Request("http://localhost/user/team/utils/0.1.0.zip", {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should not treat reads of packages named yank as publishing", async () => {
+      for (const path of ["/api/packages/alice/yank", "/api/packages/alice/pkg/1.0.0/yank"]) {
+        const response = await handler(new Request(`http://localhost${path}`));
+
+        expect(response.status).toBe(401);
+      }
+    });
+
+    it("should reject revoked and expired tokens", async () => {
+      const { token } = await registry.tokens.create("old", ["admin"]);
+      const { token: expired } = await registry.tokens.create("temp", ["admin"], {
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await registry.tokens.revoke("old");
+
+      for (const t of [token, expired]) {
+        const response = await handler(
+          new Request("http://localhost/api/packages", {
+            headers: { Authorization: `Bearer ${t}` },
+          }),
+        );
+        expect(response.status).toBe(401);
+      }
+    });
+  });
+
+  describe("GET /api/packages", () => {
+    /** Publish a minimal package archive */
+    const publish = (name: string, version: string) =>
+      registry.publish(
+        createZip([{ name: "moon.mod.json", data: JSON.stringify({ name, version }) }]),
+      );
+
+    beforeEach(async () => {
+      await publish("team/utils", "0.1.0");
+      await publish("team/utils", "0.2.0");
+      await publish("team/core", "1.0.0");
+      await publish("other/lib", "1.0.0");
+      await registry.yank("team", "utils", "0.2.0");
+    });
+
+    it("should list packages filtered by a glob", async () => {
+      const response = await handler(new Request("http://localhost/api/packages?pattern=team/*"));
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as {
+        total: number;
+        packages: { name: string; latest: string; versions: string[] }[];
+      };
+      expect(body.total).toBe(2);
+      expect(body.packages).toEqual([
+        { name: "team/core", latest: "1.0.0", versions: ["1.0.0"] },
+        { name: "team/utils", latest: "0.1.0", versions: ["0.1.0", "0.2.0"] },
+      ]);
+    });
+
+    it("should paginate the listing", async () => {
+      const response = await handler(
+        new Request("http://localhost/api/packages?page=2&per_page=2"),
+      );
+
+      const body = (await response.json()) as { pages: number; packages: { name: string }[] };
+      expect(body.pages).toBe(2);
+      expect(body.packages.map((p) => p.name)).toEqual(["team/utils"]);
+    });
+
+    it("should reject invalid pagination parameters", async () => {
+      const response = await handler(new Request("http://localhost/api/packages?per_page=0"));
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return package metadata", async () => {
+      const response = await handler(new Request("http://localhost/api/packages/team/utils"));
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { versions: { version: string }[] };
+      expect(body.versions.map((v) => v.version)).toEqual(["0.1.0", "0.2.0"]);
+    });
+
+    it("should return version details with cache state", async () => {
+      await registry.packageStore.removePackage("team", "utils", "0.1.0");
+
+      const yanked = await handler(new Request("http://localhost/api/packages/team/utils/0.2.0"));
+      const evicted = await handler(new Request("http://localhost/api/packages/team/utils/0.1.0"));
+
+      expect(await yanked.json()).toMatchObject({ yanked: true, cached: true, deps: {} });
+      expect(await evicted.json()).toMatchObject({ yanked: false, cached: false, size: 0 });
+    });
+
+    it("should list dependents of a package", async () => {
+      await registry.publish(
+        createZip([
+          {
+            name: "moon.mod.json",
+            data: JSON.stringify({
+              name: "team/app",
+              version: "1.0.0",
+              deps: { "team/utils": "0.1.0" },
+            }),
+          },
+        ]),
+      );
+
+      const response = await handler(
+        new Request("http://localhost/api/packages/team/utils/dependents?transitive=true"),
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { dependents: { name: string; depth: number }[] };
+      expect(body.dependents).toMatchObject([{ name: "team/app", depth: 1 }]);
+    });
+
+    it("should search packages", async () => {
+      const response = await handler(new Request("http://localhost/api/search?q=utils"));
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { total: number; results: { name: string }[] };
+      expect(body.results.map((r) => r.name)).toEqual(["team/utils"]);
+    });
+
+    it("should report every match in the search total", async () => {
+      const response = await handler(new Request("http://localhost/api/search?q=team&limit=1"));
+
+      const body = (await response.json()) as { total: number; results: { name: string }[] };
+      expect(body.total).toBe(2);
+      expect(body.results).toHaveLength(1);
+    });
+
+    it("should require a search query", async () => {
+      const response = await handler(new Request("http://localhost/api/search?q="));
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 for unknown packages and versions", async () => {
+      const pkg = await handler(new Request("http://localhost/api/packages/team/missing"));
+      const version = await handler(new Request("http://localhost/api/packages/team/utils/9.9.9"));
+
+      expect(pkg.status).toBe(404);
+      expect(version.status).toBe(404);
+    });
+
+    it("should reject malformed and encoded package paths", async () => {
+      for (const path of [
+        "/api/packages/team/%E0%A4%A",
+        "/api/packages/team/utils/1.0.0%2F..",
+        "/api/packages/%2E%2E%5C/utils",
+        "/api/packages/team/..%2Futils/dependents",
+        "/packages/team/%ZZ",
+        "/user/team%2Futils/pkg",
+      ]) {
+        const response = await handler(new Request(`http://localhost${path}`));
+
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+
+  describe("POST /api/packages/:username/:package/:version/yank", () => {
+    function yankRequest(action: string, token: string): Request {
+      return new Request(`http://localhost/api/packages/team/utils/0.1.0/${action}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    }
+
+    beforeEach(async () => {
+      registry.config.server.publish_token = "secret";
+      await registry.publish(
+        createZip([
+          { name: "moon.mod.json", data: JSON.stringify({ name: "team/utils", version: "0.1.0" }) },
+        ]),
+      );
+    });
+
+    it("should require the publish token", async () => {
+      const response = await handler(yankRequest("yank", "wrong"));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should yank and unyank a version", async () => {
+      const yanked = await handler(yankRequest("yank", "secret"));
+      expect(yanked.status).toBe(200);
+      expect((await registry.getPackage("team", "utils"))?.versions[0].yanked).toBe(true);
+
+      // Yanked versions stay downloadable for existing lockfiles
+      const download = await handler(new Request("http://localhost/user/team/utils/0.1.0.zip"));
+      expect(download.status).toBe(200);
+
+      const unyanked = await handler(yankRequest("unyank", "secret"));
+      expect(unyanked.status).toBe(200);
+      expect((await registry.getPackage("team", "utils"))?.versions[0].yanked).toBeUndefined();
+    });
+
+    it("should decode package segments and reject malformed ones", async () => {
+      const yank = (path: string) =>
+        handler(
+          new Request(`http://localhost/api/packages/${path}/yank`, {
+            method: "POST",
+            headers: { Authorization: "Bearer secret" },
+          }),
+        );
+
+      expect((await yank("te%61m/utils/0.1.0")).status).toBe(200);
+      expect((await registry.getPackage("team", "utils"))?.versions[0].yanked).toBe(true);
+      expect((await yank("team%2Futils/x/0.1.0")).status).toBe(400);
+      expect((await yank("team/%E0%A4%A/0.1.0")).status).toBe(400);
+    });
+
+    it("should return 404 for unknown versions", async () => {
+      const response = await handler(
+        new Request("http://localhost/api/packages/team/utils/9.9.9/yank", {
+          method: "POST",
+          headers: { Authorization: "Bearer secret" },
+        }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("ACL rules", () => {
+    /** Request with a bearer token */
+    function withToken(path: string, token: string, init: RequestInit = {}): Request {
+      return new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    }
+
+    beforeEach(async () => {
+      for (const name of ["payments/core", "team/utils"]) {
+        await registry.publish(
+          createZip([{ name: "moon.mod.json", data: JSON.stringify({ name, version: "0.1.0" }) }]),
+        );
+      }
+      registry.config.acl = [
+        { groups: ["payments"], packages: ["payments/*"], permissions: ["read", "publish"] },
+      ];
+    });
+
+    it("should restrict covered packages to their rules' subjects", async () => {
+      const { token: member } = await registry.tokens.create("alice", ["download"], {
+        groups: ["payments"],
+      });
+      const { token: outsider } = await registry.tokens.create("bob", ["download"]);
+
+      const anonymous = await handler(new Request("http://localhost/user/payments/core/0.1.0.zip"));
+      expect(anonymous.status).toBe(401);
+
+      const denied = await handler(withToken("/api/packages/payments/core", outsider));
+      expect(denied.status).toBe(403);
+
+      const allowed = await handler(withToken("/user/payments/core/0.1.0.zip", member));
+      expect(allowed.status).toBe(200);
+
+      const open = await handler(new Request("http://localhost/user/team/utils/0.1.0.zip"));
+      expect(open.status).toBe(200);
+    });
+
+    it("should hide unreadable packages from listings", async () => {
+      const response = await handler(new Request("http://localhost/api/packages"));
+      const body = (await response.json()) as { packages: { name: string }[] };
+
+      expect(body.packages.map((p) => p.name)).toEqual(["team/utils"]);
+    });
+
+    it("should hide unreadable packages from stats, dependents and dependency links", async () => {
+      for (const [name, deps] of [
+        ["payments/core", { "team/utils": "0.1.0" }],
+        ["team/app", { "payments/core": "0.2.0" }],
+      ] as const) {
+        await registry.publish(
+          createZip([
+            { name: "moon.mod.json", data: JSON.stringify({ name, version: "0.2.0", deps }) },
+          ]),
+        );
+      }
+
+      const stats = (await (await handler(new Request("http://localhost/api/stats"))).json()) as {
+        largest: { name: string }[];
+      };
+      expect(stats.largest.map((p) => p.name).sort()).toEqual(["team/app", "team/utils"]);
+
+      const dependents = await handler(
+        new Request("http://localhost/api/packages/team/utils/dependents?transitive=true"),
+      );
+      const body = (await dependents.json()) as { dependents: Record<string, unknown>[] };
+      expect(body.dependents).toEqual([expect.objectContaining({ name: "team/app", depth: 2 })]);
+      expect(body.dependents[0]).not.toHaveProperty("via");
+
+      const page = await handler(new Request("http://localhost/packages/team/app"));
+      const html = await page.text();
+      expect(html).not.toContain("payments/core");
+      expect(html).toContain("Not shown: 1 you cannot access.");
+    });
+
+    it("should not let unreadable matches crowd readable ones out of UI search", async () => {
+      registry.config.acl = [
+        ...(registry.config.acl ?? []),
+        { tokens: ["nobody"], packages: ["hidden*/*"], permissions: [] },
+      ];
+      for (let i = 0; i < 100; i++) {
+        await Bun.write(
+          registry.indexManager.getPackageIndexPath(`hidden${i}`, "utils"),
+          `${JSON.stringify({ name: `hidden${i}/utils`, version: "0.1.0", checksum: "", deps: {} })}\n`,
+        );
+      }
+      await registry.searchIndex.refresh();
+
+      const response = await handler(
+        new Request("http://localhost/?q=utils", { headers: { Accept: "text/html" } }),
+      );
+      const body = await response.text();
+
+      expect(body).toContain('<a href="/packages/team/utils">team/utils</a>');
+      expect(body).toContain("1 packages matching");
+      expect(body).not.toContain("hidden");
+    });
+
+    it("should check publish and yank permissions", async () => {
+      const { token: member } = await registry.tokens.create("alice", ["publish"], {
+        groups: ["payments"],
+      });
+      const archive = createZip([
+        {
+          name: "moon.mod.json",
+          data: JSON.stringify({ name: "payments/core", version: "0.2.0" }),
+        },
+      ]);
+
+      const published = await handler(
+        withToken("/api/publish", member, { method: "POST", body: archive }),
+      );
+      expect(published.status).toBe(201);
+
+      const yank = await handler(
+        withToken("/api/packages/payments/core/0.2.0/yank", member, { method: "POST" }),
+      );
+      expect(yank.status).toBe(403);
+
+      const { token: outsider } = await registry.tokens.create("bob", ["publish"]);
+      const other = createZip([
+        {
+          name: "moon.mod.json",
+          data: JSON.stringify({ name: "payments/core", version: "0.3.0" }),
+        },
+      ]);
+      const rejected = await handler(
+        withToken("/api/publish", outsider, { method: "POST", body: other }),
+      );
+      expect(rejected.status).toBe(403);
+      expect(registry.packageStore.hasPackage("payments", "core", "0.3.0")).toBe(false);
+    });
+  });
+
+  describe("filtered git index", () => {
+    let server: ReturnType<typeof Bun.serve>;
+
+    /** Publish a package version into the served index */
+    async function publish(name: string, version = "0.1.0"): Promise<void> {
+      await registry.publish(
+        createZip([{ name: "moon.mod.json", data: JSON.stringify({ name, version }) }]),
+      );
+    }
+
+    /** Clone the served index, optionally sending a token */
+    async function clone(dest: string, token?: string): Promise<void> {
+      const auth = token ? ["-c", `http.extraHeader=Authorization: Bearer ${token}`] : [];
+      await $`git ${auth} clone -q http://localhost:${server.port}/git/index ${dest}`.quiet();
+    }
+
+    beforeEach(async () => {
+      await publish("payments/core");
+      await publish("team/utils");
+      registry.config.acl = [
+        { groups: ["payments"], packages: ["payments/*"], permissions: ["read"] },
+      ];
+      // Git clients only fall back to dumb HTTP when info/refs?service= is not answered with 501
+      registry.config.server.smart_http = { enabled: true };
+      server = Bun.serve({ port: 0, fetch: createServer(registry, { port: 0 }).handler });
+    });
+
+    afterEach(() => {
+      server.stop(true);
+    });
+
+    it("should serve the full index without ACL rules or to admin tokens", async () => {
+      const { token } = await registry.tokens.create("root", ["admin"]);
+      const admin = await registry.authenticate(token);
+      expect(await registry.getIndexRepository(admin)).toBe(registry.indexManager.path);
+
+      registry.config.acl = [];
+      expect(await registry.getIndexRepository(null)).toBe(registry.indexManager.path);
+    });
+
+    it("should only serve packages a token may read", async () => {
+      const { token } = await registry.tokens.create("alice", ["read-index"], {
+        groups: ["payments"],
+      });
+
+      await clone(join(tempDir, "anonymous"));
+      expect(existsSync(join(tempDir, "anonymous", "team", "utils"))).toBe(true);
+      expect(existsSync(join(tempDir, "anonymous", "payments"))).toBe(false);
+
+      await clone(join(tempDir, "member"), token);
+      expect(existsSync(join(tempDir, "member", "payments", "core"))).toBe(true);
+      expect(existsSync(join(tempDir, "member", "team", "utils"))).toBe(true);
+    });
+
+    it("should extend a view's history when the index changes", async () => {
+      const dest = join(tempDir, "clone");
+      await clone(dest);
+
+      await publish("team/utils", "0.2.0");
+      await publish("payments/core", "0.2.0");
+      await $`git -C ${dest} pull -q --ff-only`.quiet();
+
+      const log = await $`git -C ${dest} log --format=%s`.text();
+      expect(log.trim().split("\n")).toHaveLength(2);
+      expect(await Bun.file(join(dest, "team", "utils")).text()).toContain("0.2.0");
+      expect(existsSync(join(dest, "payments"))).toBe(false);
+    });
+    it("should delete the views of revoked tokens", async () => {
+      const { token, record } = await registry.tokens.create("alice", ["read-index"], {
+        groups: ["payments"],
+      });
+      await clone(join(tempDir, "member"), token);
+      const view = join(registry.config.registry.data_dir, "index-views", record.id);
+      expect(existsSync(view)).toBe(true);
+
+      await registry.tokens.revoke("alice");
+      await clone(join(tempDir, "anonymous"));
+
+      expect(existsSync(view)).toBe(false);
+    });
+
+    it("should recreate a view without the history of revoked packages", async () => {
+      const { token } = await registry.tokens.create("alice", ["read-index"], {
+        groups: ["payments"],
+      });
+      await clone(join(tempDir, "before"), token);
+
+      registry.config.acl = [
+        { groups: ["billing"], packages: ["payments/*"], permissions: ["read"] },
+      ];
+      const dest = join(tempDir, "after");
+      await clone(dest, token);
+
+      const objects = await $`git -C ${dest} rev-list --all --objects`.text();
+      expect(objects).toContain("utils");
+      expect(objects).not.toContain("payments");
+      const view = await registry.getIndexRepository(await registry.authenticate(token));
+      expect(await $`git -C ${view} rev-list --all --objects`.text()).not.toContain("payments");
+    });
+  });
+
+  describe("pull-through proxy", () => {
+    let upstream: ReturnType<typeof Bun.serve>;
+    let upstreamHits: number;
+    const archive = createZip([
+      { name: "moon.mod.json", data: JSON.stringify({ name: "team/utils", version: "0.1.0" }) },
+    ]);
+
+    beforeEach(async () => {
+      upstreamHits = 0;
+      upstream = Bun.serve({
+        port: 0,
+        async fetch() {
+          upstreamHits++;
+          await Bun.sleep(20);
+          return new Response(archive);
+        },
+      });
+
+      const config = registry.config;
+      config.sources = [
+        {
+          name: "internal",
+          type: "custom",
+          url: `http://localhost:${upstream.port}`,
+          index_url: "",
+          index_type: "git",
+          package_url_pattern: "${url}/${username}/${name}/${version}.zip",
+          enabled: true,
+        },
+      ];
+      registry = new Registry(config, tempDir);
+      const server = createServer(registry, { port: 0 });
+      handler = async (request) => server.handler(request);
+
+      const checksum = new Bun.CryptoHasher("sha256").update(archive).digest("hex");
+      await Bun.write(
+        join(registry.indexManager.getSourceIndexPath("internal"), "team", "utils"),
+        `${JSON.stringify({ name: "team/utils", version: "0.1.0", checksum, deps: {} })}\n`,
+      );
+    });
+
+    afterEach(() => {
+      upstream.stop(true);
+    });
+
+    it("should fetch cache misses from a source index", async () => {
+      const response = await handler(new Request("http://localhost/user/team/utils/0.1.0.zip"));
+
+      expect(response.status).toBe(200);
+      expect(registry.packageStore.hasPackage("team", "utils", "0.1.0")).toBe(true);
+    });
+
+    it("should index fetched packages for search", async () => {
+      expect(await registry.search("utils")).toEqual([]);
+
+      await handler(new Request("http://localhost/user/team/utils/0.1.0.zip"));
+
+      expect(await registry.search("utils")).toMatchObject([
+        { name: "team/utils", version: "0.1.0" },
+      ]);
+    });
+
+    it("should coalesce concurrent requests into one upstream fetch", async () => {
+      const responses = await Promise.all(
+        [1, 2, 3].map(() => handler(new Request("http://localhost/user/team/utils/0.1.0.zip"))),
+      );
+
+      expect(responses.map((r) => r.status)).toEqual([200, 200, 200]);
+      expect(upstreamHits).toBe(1);
+    });
+
+    it("should return 404 for versions no source index knows", async () => {
+      const response = await handler(new Request("http://localhost/user/team/utils/9.9.9.zip"));
+
+      expect(response.status).toBe(404);
+      expect(upstreamHits).toBe(0);
+    });
+  });
+
   describe("CORS", () => {
     it("should handle OPTIONS preflight request", async () => {
       const request = new Request("http://localhost/api", {
@@ -103,6 +834,26 @@ describe("Server Routes", () => {
 
       expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
     });
+
+    it("should only allow configured origins", async () => {
+      registry.config.server.cors_origins = ["https://moonbit.example.com"];
+      const restricted = createServer(registry, { port: 0 }).handler;
+
+      const allowed = await restricted(
+        new Request("http://localhost/health", {
+          headers: { Origin: "https://moonbit.example.com" },
+        }),
+      );
+      expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+        "https://moonbit.example.com",
+      );
+      expect(allowed.headers.get("Vary")).toBe("Origin");
+
+      const denied = await restricted(
+        new Request("http://localhost/health", { headers: { Origin: "https://evil.example" } }),
+      );
+      expect(denied.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    });
   });
 
   describe("Smart HTTP Protocol", () => {
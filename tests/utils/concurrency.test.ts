@@ -0,0 +1,101 @@
+/**
+ * Tests for concurrency helpers
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Mutex, mapConcurrent, retry, sleep } from "../../src/utils/concurrency.ts";
+
+describe("concurrency", () => {
+  describe("mapConcurrent", () => {
+    it("should never run more than the limit at once", async () => {
+      let running = 0;
+      let peak = 0;
+
+      const results = await mapConcurrent([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(5);
+        running--;
+        return n * 2;
+      });
+
+      expect(peak).toBe(3);
+      expect(results).toEqual([2, 4, 6, 8, 10, 12, 14]);
+    });
+
+    it("should handle an empty list", async () => {
+      expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+    });
+  });
+
+  describe("Mutex", () => {
+    it("should run tasks one at a time in queue order", async () => {
+      const mutex = new Mutex();
+      const order: string[] = [];
+      let running = 0;
+
+      const task = (name: string, ms: number) =>
+        mutex.run(async () => {
+          running++;
+          expect(running).toBe(1);
+          await sleep(ms);
+          order.push(name);
+          running--;
+          return name;
+        });
+
+      expect(await Promise.all([task("a", 10), task("b", 1), task("c", 5)])).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+      expect(order).toEqual(["a", "b", "c"]);
+    });
+
+    it("should keep running tasks after one fails", async () => {
+      const mutex = new Mutex();
+      const failed = mutex.run(async () => {
+        throw new Error("boom");
+      });
+
+      await expect(failed).rejects.toThrow("boom");
+      expect(await mutex.run(async () => 1)).toBe(1);
+    });
+  });
+
+  describe("retry", () => {
+    it("should retry until the operation succeeds", async () => {
+      let attempts = 0;
+      const delays: number[] = [];
+
+      const result = await retry(
+        async () => {
+          attempts++;
+          if (attempts < 3) throw new Error("flaky");
+          return "ok";
+        },
+        { retries: 3, baseDelayMs: 2, onRetry: (_, __, delay) => delays.push(delay) },
+      );
+
+      expect(result).toBe("ok");
+      expect(attempts).toBe(3);
+      expect(delays.length).toBe(2);
+      expect(delays[1]).toBeGreaterThanOrEqual(delays[0]);
+    });
+
+    it("should stop on errors that should not be retried", async () => {
+      let attempts = 0;
+
+      await expect(
+        retry(
+          async () => {
+            attempts++;
+            throw new Error("fatal");
+          },
+          { retries: 3, baseDelayMs: 1, shouldRetry: () => false },
+        ),
+      ).rejects.toThrow("fatal");
+      expect(attempts).toBe(1);
+    });
+  });
+});
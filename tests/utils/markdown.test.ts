@@ -0,0 +1,76 @@
+/**
+ * Tests for Markdown rendering
+ */
+
+import { describe, expect, it } from "bun:test";
+import { escapeHtml, renderMarkdown } from "../../src/utils/markdown.ts";
+
+describe("renderMarkdown", () => {
+  it("should render headings, paragraphs and lists", () => {
+    const html = renderMarkdown(
+      "# Title\n\nSome *fast* and **safe** text\nover two lines.\n\n- one\n- two\n\n1. first",
+    );
+
+    expect(html).toBe(
+      [
+        "<h1>Title</h1>",
+        "<p>Some <em>fast</em> and <strong>safe</strong> text over two lines.</p>",
+        "<ul><li>one</li><li>two</li></ul>",
+        "<ol><li>first</li></ol>",
+      ].join("\n"),
+    );
+  });
+
+  it("should render code verbatim", () => {
+    const html = renderMarkdown('Call `a *b* <c>`\n\n```moonbit\nfn main { println("<hi>") }\n```');
+
+    expect(html).toContain("<code>a *b* &lt;c&gt;</code>");
+    expect(html).toContain(
+      '<pre><code class="language-moonbit">fn main { println(&quot;&lt;hi&gt;&quot;) }</code></pre>',
+    );
+  });
+
+  it("should escape raw HTML", () => {
+    expect(renderMarkdown("<script>alert(1)</script>")).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>",
+    );
+  });
+
+  it("should render safe links and drop unsafe ones", () => {
+    expect(renderMarkdown("[docs](https://example.com/a_b)")).toBe(
+      '<p><a href="https://example.com/a_b">docs</a></p>',
+    );
+    expect(renderMarkdown("[x](javascript:alert(1))")).not.toContain("href");
+  });
+
+  it("should drop links hiding a scheme behind control characters or entities", () => {
+    for (const url of [
+      "\u0001javascript:alert(1)",
+      "\u007fjavascript:alert(1)",
+      "java\tscript:x",
+    ]) {
+      expect(renderMarkdown(`[click](${url})`)).not.toContain("href");
+    }
+    expect(renderMarkdown("[x](JavaScript:alert(1))")).not.toContain("href");
+    expect(renderMarkdown("[x](data:text/html,hi)")).not.toContain("href");
+
+    // The entity stays escaped, so browsers see a relative URL, not a scheme
+    expect(renderMarkdown("[x](&#106;avascript:void)")).toBe(
+      '<p><a href="&amp;#106;avascript:void">x</a></p>',
+    );
+  });
+
+  it("should render images as links", () => {
+    expect(renderMarkdown("![logo](https://example.com/logo.png)")).toBe(
+      '<p><a href="https://example.com/logo.png">logo</a></p>',
+    );
+  });
+});
+
+describe("escapeHtml", () => {
+  it("should escape HTML special characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for ZIP archive utilities
+ */
+
+import { describe, expect, it } from "bun:test";
+import { crc32, deflateRawSync } from "node:zlib";
+import { createZip, extractEntry, listEntries, readEntry } from "../../src/utils/zip.ts";
+
+/** Build an archive with a single deflated entry, optionally lying about its size */
+function deflatedZip(name: string, data: Uint8Array, declaredSize = data.length): Uint8Array {
+  const nameBytes = new TextEncoder().encode(name);
+  const compressed = deflateRawSync(data);
+  const crc = crc32(data);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+
+  const centralOffset = local.length + nameBytes.length + compressed.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return new Uint8Array(Buffer.concat([local, nameBytes, compressed, central, nameBytes, end]));
+}
+
+describe("zip", () => {
+  it("should read stored and deflated entries", () => {
+    const stored = createZip([{ name: "a.txt", data: "stored" }]);
+    expect(new TextDecoder().decode(readEntry(stored, "a.txt") ?? undefined)).toBe("stored");
+
+    const deflated = deflatedZip("b.txt", new TextEncoder().encode("deflated ".repeat(100)));
+    expect(readEntry(deflated, "b.txt")?.length).toBe(900);
+  });
+
+  it("should refuse entries declared larger than the limit", () => {
+    const data = deflatedZip("big", new Uint8Array(2048));
+    const [entry] = listEntries(data);
+
+    expect(() => extractEntry(data, entry, 1024)).toThrow("too large");
+  });
+
+  it("should stop inflating entries that expand past the limit", () => {
+    const data = deflatedZip("bomb", new Uint8Array(2048), 10);
+    const [entry] = listEntries(data);
+
+    expect(() => extractEntry(data, entry, 1024)).toThrow("Failed to inflate bomb");
+  });
+});